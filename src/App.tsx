@@ -1,24 +1,30 @@
 import React from 'react';
 import { AudioProvider } from '@/context/AudioContext';
 import { Header } from '@/components/Header';
+import { RestorePrompt } from '@/components/RestorePrompt';
 import { WaveformDisplay } from '@/components/WaveformDisplay';
 import { ControlPanel } from '@/components/ControlPanel';
+import { ChopPanel } from '@/components/ChopPanel';
 import { PadGrid } from '@/components/PadGrid';
+import { SequencerPanel } from '@/components/SequencerPanel';
 
 /**
  * Root application component.
- * Provides audio context and renders main layout with header, waveform, controls, and pad grid.
+ * Provides audio context and renders main layout with header, waveform, chop tools, controls, pad grid, and step sequencer.
  */
 const App: React.FC = () => {
   return (
     <AudioProvider>
       <div className="font-sans bg-background-dark text-gray-300 antialiased h-screen w-screen overflow-hidden flex flex-col">
         <Header />
+        <RestorePrompt />
 
         <main className="grow flex flex-col bg-black p-4 gap-4 overflow-y-auto">
           <WaveformDisplay />
+          <ChopPanel />
           <ControlPanel />
           <PadGrid />
+          <SequencerPanel />
         </main>
       </div>
     </AudioProvider>
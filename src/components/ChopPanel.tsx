@@ -0,0 +1,221 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RiSubtractLine, RiAddLine, RiScissors2Fill, RiLoader4Line, RiLayoutColumnFill } from 'react-icons/ri';
+import { Knob } from './Knob';
+import { useAudio } from '@/context/AudioContext';
+import { mapChopGapToSeconds, formatTime } from '@/lib/audioUtils';
+import { GridUnit } from '@/lib/beatGrid';
+import { SnapMode } from '@/lib/snap';
+
+const GRID_UNITS: GridUnit[] = ['beat', 'bar'];
+
+const SNAP_MODES: { mode: SnapMode; label: string; title: string }[] = [
+  { mode: 'off', label: 'Off', title: 'No snapping' },
+  { mode: 'zeroCrossing', label: 'Zero', title: 'Snap to the nearest zero crossing' },
+  { mode: 'transient', label: 'Hit', title: 'Snap to the nearest transient' },
+  { mode: 'grid', label: 'Grid', title: 'Snap to the nearest 16th note of the beat grid' },
+];
+
+/**
+ * Chopping tools.
+ * Auto-chop places the strongest transients on empty pads; re-running it
+ * replaces its previous chops, so the settings can be tweaked until they fit.
+ * Grid chop slices the chop region (Ctrl-drag on the waveform) every N beats or bars.
+ * The snap mode applies to placing and dragging cue points; holding Alt bypasses it.
+ */
+export const ChopPanel: React.FC = () => {
+  const {
+    pads, duration, isAnalyzing, isChopping, autoChop,
+    beatGrid, chopRegion, gridChop, setDownbeatOffset,
+    snapMode, setSnapMode
+  } = useAudio();
+
+  const [count, setCount] = useState(pads.length);
+  const [sensitivity, setSensitivity] = useState(50);
+  const [minGap, setMinGap] = useState(50);
+  const [isInteractingGap, setIsInteractingGap] = useState(false);
+  const [isInteractingSensitivity, setIsInteractingSensitivity] = useState(false);
+
+  const [gridCount, setGridCount] = useState(1);
+  const [gridUnit, setGridUnit] = useState<GridUnit>('beat');
+  const [isDraggingOffset, setIsDraggingOffset] = useState(false);
+  const dragControllerRef = useRef<AbortController | null>(null);
+
+  // Cleanup drag listeners on unmount
+  useEffect(() => {
+    return () => {
+      dragControllerRef.current?.abort();
+    };
+  }, []);
+
+  const canChop = duration > 0 && !isAnalyzing && !isChopping;
+  const canGridChop = canChop && beatGrid !== null;
+  const offset = beatGrid?.offset ?? 0;
+
+  // Drag up/down to move the downbeat, 1px = 1ms
+  const handleOffsetDrag = (e: React.MouseEvent) => {
+    if (!beatGrid) return;
+    e.preventDefault();
+    setIsDraggingOffset(true);
+    const startY = e.clientY;
+    const startOffset = offset;
+
+    dragControllerRef.current?.abort();
+    dragControllerRef.current = new AbortController();
+    const { signal } = dragControllerRef.current;
+
+    const mouseMove = (ev: MouseEvent) => {
+      setDownbeatOffset(startOffset + (startY - ev.clientY) / 1000);
+    };
+
+    const mouseUp = () => {
+      setIsDraggingOffset(false);
+      dragControllerRef.current?.abort();
+      document.body.style.cursor = 'default';
+    };
+
+    document.body.style.cursor = 'ns-resize';
+    window.addEventListener('mousemove', mouseMove, { signal });
+    window.addEventListener('mouseup', mouseUp, { signal });
+  };
+
+  const handleAutoChop = () => {
+    if (!canChop) return;
+    autoChop({
+      count,
+      sensitivity: sensitivity / 100,
+      minGap: mapChopGapToSeconds(minGap),
+    });
+  };
+
+  return (
+    <div className="shrink-0 bg-surface-dark rounded-sm p-4 flex items-center justify-center gap-4 md:gap-8 shadow-ui-element-inset overflow-x-auto">
+      <div className="flex flex-col items-center gap-2">
+        <button
+          onClick={handleAutoChop}
+          disabled={!canChop}
+          className="w-16 h-12 rounded flex items-center justify-center transition-all duration-100 bg-surface-light text-gray-400 hover:text-white hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none"
+          title="Place the strongest transients on empty pads"
+        >
+          {isChopping
+            ? <RiLoader4Line className="text-2xl animate-spin" />
+            : <RiScissors2Fill className="text-2xl" />}
+        </button>
+        <span className="text-xs font-semibold text-gray-400 select-none">Auto Chop</span>
+      </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex items-center gap-6">
+        <Knob
+          label={isInteractingSensitivity ? `${Math.round(sensitivity)}%` : "Sensitivity"}
+          value={sensitivity}
+          onChange={setSensitivity}
+          onInteractChange={setIsInteractingSensitivity}
+        />
+        <Knob
+          label={isInteractingGap ? formatTime(mapChopGapToSeconds(minGap)) : "Min Gap"}
+          value={minGap}
+          onChange={setMinGap}
+          onInteractChange={setIsInteractingGap}
+        />
+      </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setCount(c => Math.max(1, c - 1))}
+            className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
+          >
+            <RiSubtractLine className="text-sm" />
+          </button>
+          <div className="flex items-baseline gap-1 w-20 justify-center">
+            <span className="font-mono text-lg font-bold select-none">{count}</span>
+          </div>
+          <button
+            onClick={() => setCount(c => Math.min(pads.length, c + 1))}
+            className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
+          >
+            <RiAddLine className="text-sm" />
+          </button>
+        </div>
+        <span className="text-xs font-semibold text-gray-400 select-none">Chops</span>
+      </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex flex-col items-center gap-2">
+        <button
+          onClick={() => canGridChop && gridChop({ count: gridCount, unit: gridUnit })}
+          disabled={!canGridChop}
+          className="w-16 h-12 rounded flex items-center justify-center transition-all duration-100 bg-surface-light text-gray-400 hover:text-white hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none"
+          title={chopRegion ? 'Slice the selected region to the beat grid' : 'Slice the track to the beat grid (Ctrl-drag the waveform to pick a region)'}
+        >
+          <RiLayoutColumnFill className="text-2xl" />
+        </button>
+        <span className="text-xs font-semibold text-gray-400 select-none">Grid Chop</span>
+      </div>
+
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setGridCount(c => Math.max(1, c - 1))}
+            className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
+          >
+            <RiSubtractLine className="text-sm" />
+          </button>
+          <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+            <span className="font-mono text-lg font-bold select-none w-6 text-center">{gridCount}</span>
+            {GRID_UNITS.map(unit => (
+              <button
+                key={unit}
+                onClick={() => setGridUnit(unit)}
+                className={`h-7 px-2 rounded-sm font-mono text-xs font-bold transition-all ${gridUnit === unit ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+              >
+                {unit === 'beat' ? 'Beat' : 'Bar'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setGridCount(c => c + 1)}
+            className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
+          >
+            <RiAddLine className="text-sm" />
+          </button>
+        </div>
+        <span className="text-xs font-semibold text-gray-400 select-none">Every</span>
+      </div>
+
+      <div className="flex flex-col items-center gap-2">
+        <div
+          className={`bg-background-dark rounded-sm p-2 px-3 text-center shadow-ui-element-inset transition-colors select-none w-24 ${beatGrid ? 'cursor-ns-resize' : 'opacity-40'} ${isDraggingOffset ? 'text-primary' : 'text-gray-300 hover:text-white'}`}
+          onMouseDown={handleOffsetDrag}
+          onDoubleClick={() => setDownbeatOffset(0)}
+          title="Drag to move the first downbeat, double-click to reset"
+        >
+          <span className="font-mono text-lg font-bold">{formatTime(offset)}</span>
+        </div>
+        <span className="text-xs font-semibold text-gray-400 select-none">Downbeat</span>
+      </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+          {SNAP_MODES.map(({ mode, label, title }) => (
+            <button
+              key={mode}
+              onClick={() => setSnapMode(mode)}
+              className={`h-7 px-2 rounded-sm font-mono text-xs font-bold transition-all ${snapMode === mode ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+              title={`${title} (hold Alt to bypass)`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs font-semibold text-gray-400 select-none">Snap</span>
+      </div>
+    </div>
+  );
+};
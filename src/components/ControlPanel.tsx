@@ -1,29 +1,108 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { RiSubtractLine, RiAddLine, RiPlayReverseFill } from 'react-icons/ri';
+import { IconType } from 'react-icons';
+import { RiSubtractLine, RiAddLine, RiPlayReverseFill, RiArrowRightLine, RiRepeatLine, RiArrowLeftRightLine, RiRepeatOneLine } from 'react-icons/ri';
 import { Knob } from './Knob';
+import { MidiLearnable, MidiLearnState } from './MidiLearnable';
+import { EnvelopeGraph } from './EnvelopeGraph';
 import { useAudio } from '@/context/AudioContext';
-import { mapAttackToSeconds, mapReleaseToSeconds, formatTime } from '@/lib/audioUtils';
-import { TIME_STRETCH_MIN, TIME_STRETCH_MAX } from '@/config/constants';
+import type { EnvelopeCurve, FilterType, LoopMode } from '@/lib/AudioEngine';
+import { mapAttackToSeconds, mapDecayToSeconds, mapReleaseToSeconds, mapCutoffToHz, formatTime, formatFrequency } from '@/lib/audioUtils';
+import { VELOCITY_CURVES, VelocityCurve, curveVelocity } from '@/lib/velocity';
+import { TIME_STRETCH_MIN, TIME_STRETCH_MAX, CHOKE_GROUP_COUNT, MUTE_GROUP_COUNT, PAD_GAIN_MIN_DB, PAD_GAIN_MAX_DB } from '@/config/constants';
+
+const CHOKE_GROUPS = Array.from({ length: CHOKE_GROUP_COUNT }, (_, i) => i + 1);
+const MUTE_GROUPS = Array.from({ length: MUTE_GROUP_COUNT }, (_, i) => i + 1);
+
+const LOOP_MODES: { mode: LoopMode; icon: IconType; title: string }[] = [
+  { mode: 'off', icon: RiArrowRightLine, title: 'No loop' },
+  { mode: 'forward', icon: RiRepeatLine, title: 'Loop forward' },
+  { mode: 'pingpong', icon: RiArrowLeftRightLine, title: 'Ping-pong loop' },
+  { mode: 'sustain', icon: RiRepeatOneLine, title: 'Loop while held' },
+];
+
+const FILTER_TYPES: { type: FilterType; label: string; title: string }[] = [
+  { type: 'lowpass', label: 'LP', title: 'Low-pass: cuts the highs' },
+  { type: 'highpass', label: 'HP', title: 'High-pass: cuts the lows' },
+  { type: 'bandpass', label: 'BP', title: 'Band-pass: keeps a band around the cutoff' },
+];
+
+const ENVELOPE_CURVES: { curve: EnvelopeCurve; label: string; title: string }[] = [
+  { curve: 'linear', label: 'LIN', title: 'Linear envelope: straight ramps' },
+  { curve: 'exponential', label: 'EXP', title: 'Exponential envelope: fast then easing in, like a natural decay' },
+];
+
+const formatGain = (gain: number) => `${gain > 0 ? '+' : ''}${gain.toFixed(1)} dB`;
+
+const formatPan = (pan: number) => {
+  const amount = Math.round(Math.abs(pan));
+  if (amount === 0) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${amount}`;
+};
+
+// Outline of a velocity curve: velocity across, level up
+const curvePath = (curve: VelocityCurve) => Array.from({ length: 11 }, (_, i) => {
+  const velocity = i / 10;
+  return `${i === 0 ? 'M' : 'L'}${2 + velocity * 16} ${18 - curveVelocity(velocity, curve) * 16}`;
+}).join(' ');
 
 /**
  * Main control panel for audio parameters.
- * Allows adjusting attack, release, time stretch, key shift, and playback direction for the selected pad.
+ * Allows adjusting the envelope (attack, decay, sustain, release and curve), filter, time stretch, key shift, playback direction, loop mode, velocity response, choke and mute groups
+ * and channel strip (gain, pan, mute and solo) for the selected pad.
+ * Sustain holds while a gated pad is held, or until the slice ends in trigger mode.
+ * The filter envelope follows the attack and release: it moves the cutoff by Env over the attack and back over the release.
+ * The knobs, time stretch and key shift can be learned to MIDI controllers.
  */
 export const ControlPanel: React.FC = () => {
-  const { pads, selectedPadId, updateSelectedPadParams } = useAudio();
+  const {
+    pads, selectedPadId, updateSelectedPadParams, setPadChokeGroup, setPadMuteGroup,
+    isMidiLearning, midiLearnTarget, midiMappings, armMidiLearn, forgetMidiControl
+  } = useAudio();
+
+  const learn: MidiLearnState = {
+    isLearning: isMidiLearning,
+    armedTarget: midiLearnTarget,
+    mappings: midiMappings,
+    onArm: armMidiLearn,
+    onForget: forgetMidiControl,
+  };
 
   const selectedPad = selectedPadId ? pads.find(p => p.id === selectedPadId) : null;
 
   // Defaults if no pad selected
   const attack = selectedPad?.params.attack ?? 0;
+  const decay = selectedPad?.params.decay ?? 0;
+  const sustain = selectedPad?.params.sustain ?? 100;
   const release = selectedPad?.params.release ?? 30;
+  const envelopeCurve = selectedPad?.params.envelopeCurve ?? 'linear';
   const timeStretch = selectedPad?.params.timeStretch ?? 100;
   const keyShift = selectedPad?.params.keyShift ?? 0;
   const isReverse = selectedPad?.params.isReverse ?? false;
+  const loopMode = selectedPad?.params.loopMode ?? 'off';
+  const filterType = selectedPad?.params.filterType ?? 'lowpass';
+  const filterCutoff = selectedPad?.params.filterCutoff ?? 100;
+  const filterResonance = selectedPad?.params.filterResonance ?? 0;
+  const filterEnvelope = selectedPad?.params.filterEnvelope ?? 0;
+  const velocityCurve = selectedPad?.params.velocityCurve ?? 'linear';
+  const velocityToFilter = selectedPad?.params.velocityToFilter ?? 0;
+  const gain = selectedPad?.params.gain ?? 0;
+  const pan = selectedPad?.params.pan ?? 0;
+  const isMuted = selectedPad?.params.isMuted ?? false;
+  const isSoloed = selectedPad?.params.isSoloed ?? false;
+  const chokeGroup = selectedPad?.chokeGroup ?? null;
+  const muteGroup = selectedPad?.muteGroup ?? null;
 
   const [isDraggingTime, setIsDraggingTime] = useState(false);
   const [isInteractingAttack, setIsInteractingAttack] = useState(false);
+  const [isInteractingDecay, setIsInteractingDecay] = useState(false);
+  const [isInteractingSustain, setIsInteractingSustain] = useState(false);
   const [isInteractingRelease, setIsInteractingRelease] = useState(false);
+  const [isInteractingCutoff, setIsInteractingCutoff] = useState(false);
+  const [isInteractingResonance, setIsInteractingResonance] = useState(false);
+  const [isInteractingFilterEnvelope, setIsInteractingFilterEnvelope] = useState(false);
+  const [isInteractingVelocityFilter, setIsInteractingVelocityFilter] = useState(false);
+  const [isInteractingGain, setIsInteractingGain] = useState(false);
+  const [isInteractingPan, setIsInteractingPan] = useState(false);
   const dragControllerRef = useRef<AbortController | null>(null);
 
   // Cleanup drag listeners on unmount
@@ -67,54 +146,141 @@ export const ControlPanel: React.FC = () => {
   return (
     <div className="shrink-0 bg-surface-dark rounded-sm p-4 flex items-center justify-center gap-4 md:gap-8 shadow-ui-element-inset overflow-x-auto">
       <div className="flex items-center gap-6">
-        <Knob
-          label={isInteractingAttack ? formatTime(mapAttackToSeconds(attack)) : "Attack"}
-          value={attack}
-          onChange={(val) => updateSelectedPadParams({ attack: val })}
-          onInteractChange={setIsInteractingAttack}
-        />
-        <Knob
-          label={isInteractingRelease ? formatTime(mapReleaseToSeconds(release)) : "Release"}
-          value={release}
-          onChange={(val) => updateSelectedPadParams({ release: val })}
-          onInteractChange={setIsInteractingRelease}
-        />
+        <div className="flex flex-col items-center gap-2">
+          <div className="px-1 bg-background-dark rounded-sm text-primary shadow-ui-element-inset">
+            <EnvelopeGraph attack={attack} decay={decay} sustain={sustain} release={release} curve={envelopeCurve} />
+          </div>
+          <div className="flex items-center gap-1">
+            {ENVELOPE_CURVES.map(({ curve, label, title }) => (
+              <button
+                key={curve}
+                onClick={() => updateSelectedPadParams({ envelopeCurve: curve })}
+                className={`px-1.5 h-5 rounded-sm font-mono text-[10px] font-bold transition-all flex items-center justify-center ${envelopeCurve === curve ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+                title={title}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <MidiLearnable target="attack" learn={learn}>
+          <Knob
+            label={isInteractingAttack ? formatTime(mapAttackToSeconds(attack)) : "Attack"}
+            value={attack}
+            onChange={(val) => updateSelectedPadParams({ attack: val })}
+            onInteractChange={setIsInteractingAttack}
+          />
+        </MidiLearnable>
+        <MidiLearnable target="decay" learn={learn}>
+          <Knob
+            label={isInteractingDecay ? formatTime(mapDecayToSeconds(decay)) : "Decay"}
+            value={decay}
+            onChange={(val) => updateSelectedPadParams({ decay: val })}
+            onInteractChange={setIsInteractingDecay}
+          />
+        </MidiLearnable>
+        <MidiLearnable target="sustain" learn={learn}>
+          <Knob
+            label={isInteractingSustain ? `${Math.round(sustain)}%` : "Sustain"}
+            value={sustain}
+            onChange={(val) => updateSelectedPadParams({ sustain: val })}
+            onInteractChange={setIsInteractingSustain}
+          />
+        </MidiLearnable>
+        <MidiLearnable target="release" learn={learn}>
+          <Knob
+            label={isInteractingRelease ? formatTime(mapReleaseToSeconds(release)) : "Release"}
+            value={release}
+            onChange={(val) => updateSelectedPadParams({ release: val })}
+            onInteractChange={setIsInteractingRelease}
+          />
+        </MidiLearnable>
       </div>
 
       <div className="h-12 w-px bg-black/50 mx-2"></div>
 
-      <div className="flex items-center gap-6 md:gap-8">
+      <div className="flex items-center gap-6">
         <div className="flex flex-col items-center gap-2">
-          <div
-            className={`bg-background-dark rounded-sm p-2 px-3 text-center cursor-ns-resize shadow-ui-element-inset transition-colors select-none w-24 ${isDraggingTime ? 'text-primary' : 'text-gray-300 hover:text-white'}`}
-            onMouseDown={handleTimeStretchDrag}
-          >
-            <span className="font-mono text-lg font-bold">{timeStretch}%</span>
+          <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+            {FILTER_TYPES.map(({ type, label, title }) => (
+              <button
+                key={type}
+                onClick={() => updateSelectedPadParams({ filterType: type })}
+                className={`w-7 h-7 rounded-sm font-mono text-xs font-bold transition-all flex items-center justify-center ${filterType === type ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+                title={title}
+              >
+                {label}
+              </button>
+            ))}
           </div>
-          <span className="text-xs font-semibold text-gray-400 select-none">Time Stretch</span>
+          <span className="text-xs font-semibold text-gray-400 select-none">Filter</span>
         </div>
+        <MidiLearnable target="filterCutoff" learn={learn}>
+          <Knob
+            label={isInteractingCutoff ? formatFrequency(mapCutoffToHz(filterCutoff)) : "Cutoff"}
+            value={filterCutoff}
+            onChange={(val) => updateSelectedPadParams({ filterCutoff: val })}
+            onInteractChange={setIsInteractingCutoff}
+          />
+        </MidiLearnable>
+        <MidiLearnable target="filterResonance" learn={learn}>
+          <Knob
+            label={isInteractingResonance ? `${Math.round(filterResonance)}%` : "Reso"}
+            value={filterResonance}
+            onChange={(val) => updateSelectedPadParams({ filterResonance: val })}
+            onInteractChange={setIsInteractingResonance}
+          />
+        </MidiLearnable>
+        <MidiLearnable target="filterEnvelope" learn={learn}>
+          <Knob
+            label={isInteractingFilterEnvelope ? `${filterEnvelope > 0 ? '+' : ''}${Math.round(filterEnvelope)}%` : "Env"}
+            min={-100}
+            max={100}
+            value={filterEnvelope}
+            onChange={(val) => updateSelectedPadParams({ filterEnvelope: val })}
+            onInteractChange={setIsInteractingFilterEnvelope}
+          />
+        </MidiLearnable>
+      </div>
 
-        <div className="flex flex-col items-center gap-2">
-          <div className="flex items-center gap-1">
-            <button
-              onClick={() => updateSelectedPadParams({ keyShift: keyShift - 1 })}
-              className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex items-center gap-6 md:gap-8">
+        <MidiLearnable target="timeStretch" learn={learn}>
+          <div className="flex flex-col items-center gap-2">
+            <div
+              className={`bg-background-dark rounded-sm p-2 px-3 text-center cursor-ns-resize shadow-ui-element-inset transition-colors select-none w-24 ${isDraggingTime ? 'text-primary' : 'text-gray-300 hover:text-white'}`}
+              onMouseDown={handleTimeStretchDrag}
             >
-              <RiSubtractLine className="text-sm" />
-            </button>
-            <div className="flex items-baseline gap-1 w-20 justify-center">
-              <span className="font-mono text-lg font-bold select-none">{keyShift}</span>
-              <span className="font-mono text-[10px] text-gray-400 select-none">st</span>
+              <span className="font-mono text-lg font-bold">{timeStretch}%</span>
             </div>
-            <button
-              onClick={() => updateSelectedPadParams({ keyShift: keyShift + 1 })}
-              className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
-            >
-              <RiAddLine className="text-sm" />
-            </button>
+            <span className="text-xs font-semibold text-gray-400 select-none">Time Stretch</span>
           </div>
-          <span className="text-xs font-semibold text-gray-400 select-none">Key Shift</span>
-        </div>
+        </MidiLearnable>
+
+        <MidiLearnable target="keyShift" learn={learn}>
+          <div className="flex flex-col items-center gap-2">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => updateSelectedPadParams({ keyShift: keyShift - 1 })}
+                className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
+              >
+                <RiSubtractLine className="text-sm" />
+              </button>
+              <div className="flex items-baseline gap-1 w-20 justify-center">
+                <span className="font-mono text-lg font-bold select-none">{keyShift}</span>
+                <span className="font-mono text-[10px] text-gray-400 select-none">st</span>
+              </div>
+              <button
+                onClick={() => updateSelectedPadParams({ keyShift: keyShift + 1 })}
+                className="w-8 h-8 bg-surface-light rounded-sm hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed flex items-center justify-center text-gray-300 active:text-white transition-all"
+              >
+                <RiAddLine className="text-sm" />
+              </button>
+            </div>
+            <span className="text-xs font-semibold text-gray-400 select-none">Key Shift</span>
+          </div>
+        </MidiLearnable>
       </div>
 
       <div className="h-12 w-px bg-black/50 mx-2"></div>
@@ -132,6 +298,132 @@ export const ControlPanel: React.FC = () => {
         </button>
         <span className="text-xs font-semibold text-gray-400 select-none">Reverse</span>
       </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+          {LOOP_MODES.map(({ mode, icon: Icon, title }) => (
+            <button
+              key={mode}
+              onClick={() => updateSelectedPadParams({ loopMode: mode })}
+              className={`w-7 h-7 rounded-sm transition-all flex items-center justify-center ${loopMode === mode ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+              title={title}
+            >
+              <Icon className="text-base" />
+            </button>
+          ))}
+        </div>
+        <span className="text-xs font-semibold text-gray-400 select-none">Loop</span>
+      </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex items-center gap-6">
+        <div className="flex flex-col items-center gap-2">
+          <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+            {VELOCITY_CURVES.map(({ curve, title }) => (
+              <button
+                key={curve}
+                onClick={() => updateSelectedPadParams({ velocityCurve: curve })}
+                className={`w-7 h-7 rounded-sm transition-all flex items-center justify-center ${velocityCurve === curve ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+                title={title}
+              >
+                <svg viewBox="0 0 20 20" className="w-4 h-4">
+                  <path d={curvePath(curve)} fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+              </button>
+            ))}
+          </div>
+          <span className="text-xs font-semibold text-gray-400 select-none">Velocity</span>
+        </div>
+        <MidiLearnable target="velocityToFilter" learn={learn}>
+          <Knob
+            label={isInteractingVelocityFilter ? `${Math.round(velocityToFilter)}%` : "Vel > Filter"}
+            value={velocityToFilter}
+            onChange={(val) => updateSelectedPadParams({ velocityToFilter: val })}
+            onInteractChange={setIsInteractingVelocityFilter}
+          />
+        </MidiLearnable>
+      </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+          {[null, ...CHOKE_GROUPS].map(group => (
+            <button
+              key={group ?? 'none'}
+              onClick={() => selectedPad && setPadChokeGroup(selectedPad.id, group)}
+              className={`w-7 h-7 rounded-sm font-mono text-xs font-bold transition-all flex items-center justify-center ${chokeGroup === group ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+              title={group === null ? 'No choke group' : `Choke group ${group}: releases the others`}
+            >
+              {group ?? '-'}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs font-semibold text-gray-400 select-none">Choke Group</span>
+      </div>
+
+      <div className="flex flex-col items-center gap-2">
+        <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+          {[null, ...MUTE_GROUPS].map(group => (
+            <button
+              key={group ?? 'none'}
+              onClick={() => selectedPad && setPadMuteGroup(selectedPad.id, group)}
+              className={`w-7 h-7 rounded-sm font-mono text-xs font-bold transition-all flex items-center justify-center ${muteGroup === group ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+              title={group === null ? 'No mute group' : `Mute group ${group}: cuts the others off at once`}
+            >
+              {group ?? '-'}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs font-semibold text-gray-400 select-none">Mute Group</span>
+      </div>
+
+      <div className="h-12 w-px bg-black/50 mx-2"></div>
+
+      <div className="flex items-center gap-6">
+        <MidiLearnable target="gain" learn={learn}>
+          <Knob
+            label={isInteractingGain ? formatGain(gain) : "Gain"}
+            min={PAD_GAIN_MIN_DB}
+            max={PAD_GAIN_MAX_DB}
+            value={gain}
+            onChange={(val) => updateSelectedPadParams({ gain: Math.round(val * 10) / 10 })}
+            onInteractChange={setIsInteractingGain}
+          />
+        </MidiLearnable>
+        <MidiLearnable target="pan" learn={learn}>
+          <Knob
+            label={isInteractingPan ? formatPan(pan) : "Pan"}
+            min={-100}
+            max={100}
+            value={pan}
+            onChange={(val) => updateSelectedPadParams({ pan: Math.round(val) })}
+            onInteractChange={setIsInteractingPan}
+          />
+        </MidiLearnable>
+        <div className="flex flex-col items-center gap-2">
+          <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+            <button
+              onClick={() => updateSelectedPadParams({ isMuted: !isMuted })}
+              className={`w-7 h-7 rounded-sm font-mono text-xs font-bold transition-all flex items-center justify-center ${isMuted ? 'text-black bg-primary shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+              title={isMuted ? 'Unmute the pad' : 'Mute the pad'}
+            >
+              M
+            </button>
+            <button
+              onClick={() => updateSelectedPadParams({ isSoloed: !isSoloed })}
+              className={`w-7 h-7 rounded-sm font-mono text-xs font-bold transition-all flex items-center justify-center ${isSoloed ? 'text-black bg-yellow-400 shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+              title={isSoloed ? 'Unsolo the pad' : 'Solo the pad (only soloed pads are heard)'}
+            >
+              S
+            </button>
+          </div>
+          <span className="text-xs font-semibold text-gray-400 select-none">Mix</span>
+        </div>
+      </div>
     </div>
   );
 };
\ No newline at end of file
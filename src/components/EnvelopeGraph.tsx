@@ -0,0 +1,65 @@
+import React from 'react';
+import type { EnvelopeCurve } from '@/lib/AudioEngine';
+import { mapAttackToSeconds, mapDecayToSeconds, mapReleaseToSeconds } from '@/lib/audioUtils';
+import { ENVELOPE_TIME_CONSTANTS } from '@/config/constants';
+
+interface EnvelopeGraphProps {
+  attack: number;     // UI values (0-100), like the knobs
+  decay: number;
+  sustain: number;
+  release: number;
+  curve: EnvelopeCurve;
+}
+
+const WIDTH = 80;
+const HEIGHT = 32;
+const PADDING = 2;
+// Share of the width the sustain takes: it lasts as long as the pad is held, so it has no length of its own
+const SUSTAIN_WIDTH = 0.2;
+const STAGE_POINTS = 12;
+
+// How far through its move a stage is, the way the engine plays it
+const stageProgress = (progress: number, curve: EnvelopeCurve) => {
+  if (curve === 'linear' || progress >= 1) return progress;
+  return 1 - Math.exp(-ENVELOPE_TIME_CONSTANTS * progress);
+};
+
+/**
+ * Outline of a pad's ADSR envelope: time across, level up.
+ * The stages keep their real proportions, scaled to fit.
+ */
+export const EnvelopeGraph: React.FC<EnvelopeGraphProps> = ({ attack, decay, sustain, release, curve }) => {
+  const attackTime = mapAttackToSeconds(attack);
+  const decayTime = sustain < 100 ? mapDecayToSeconds(decay) : 0;
+  const releaseTime = mapReleaseToSeconds(release);
+  const total = attackTime + decayTime + releaseTime;
+
+  const innerWidth = WIDTH - PADDING * 2;
+  const innerHeight = HEIGHT - PADDING * 2;
+  const timeWidth = innerWidth * (1 - SUSTAIN_WIDTH);
+  const toWidth = (seconds: number) => (total > 0 ? (seconds / total) * timeWidth : 0);
+  const toY = (level: number) => PADDING + innerHeight * (1 - level);
+
+  const points: [number, number][] = [[PADDING, toY(0)]];
+  const addStage = (width: number, from: number, to: number) => {
+    const [x] = points[points.length - 1];
+    for (let i = 1; i <= STAGE_POINTS; i++) {
+      const progress = i / STAGE_POINTS;
+      points.push([x + width * progress, toY(from + (to - from) * stageProgress(progress, curve))]);
+    }
+  };
+
+  const level = sustain / 100;
+  addStage(toWidth(attackTime), 0, 1);
+  addStage(toWidth(decayTime), 1, level);
+  addStage(innerWidth * SUSTAIN_WIDTH, level, level);
+  addStage(toWidth(releaseTime), level, 0);
+
+  const path = points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-20 h-8">
+      <path d={path} fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+    </svg>
+  );
+};
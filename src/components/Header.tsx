@@ -2,11 +2,17 @@ import React, { useRef } from 'react';
 import { RiLoader4Line, RiUpload2Fill } from 'react-icons/ri';
 import { useAudio } from '@/context/AudioContext';
 import { HeaderControls } from './header/HeaderControls';
+import { ProjectControls } from './header/ProjectControls';
+import { HistoryControls } from './header/HistoryControls';
+import { ExportControls } from './header/ExportControls';
+import { MetronomeControls } from './header/MetronomeControls';
+import { MidiControls } from './header/MidiControls';
+import { MidiLearnState } from './MidiLearnable';
 import { AUDIO_FILE_PICKER_ACCEPT } from '@/lib/AudioLoader';
 
 /**
  * Application header containing global controls.
- * Includes file upload, BPM/Key display and adjustment, and master volume.
+ * Includes file upload, project save/open, chop export, undo/redo, MIDI input, metronome, BPM/Key display and adjustment, and master volume.
  */
 export const Header: React.FC = () => {
   const {
@@ -14,14 +20,32 @@ export const Header: React.FC = () => {
     masterVolume, setMasterVolume,
     globalKeyShift, setGlobalKeyShift,
     loadFile,
+    saveProject, openProject,
+    pads, selectedPadId, exportPads, exportInstrument, exportMarkedWav, isExporting,
+    undo, redo, canUndo, canRedo, undoLabel, redoLabel,
+    duration,
     detectedBpm,
-    currentBpm, setBpm,
+    currentBpm, setBpm, scaleBpm,
+    detectedKey, keyCandidates, bpmCandidates, chooseKeyCandidate, chooseBpmCandidate,
     isAnalyzing,
     fileLoadStatus,
-    keyMode, detectedKeyIndex
+    keyMode, detectedKeyIndex,
+    isMetronomeOn, setMetronomeOn, metronomeVolume, setMetronomeVolume, countInBars, setCountInBars,
+    isMidiConnected, connectMidi, midiInputs, midiInputId, selectMidiInput,
+    isMidiLearning, setMidiLearning, midiLearnTarget, midiMappings, armMidiLearn, forgetMidiControl
   } = useAudio();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const selectedPad = pads.find(p => p.id === selectedPadId && p.cuePoint !== null);
+
+  const midiLearn: MidiLearnState = {
+    isLearning: isMidiLearning,
+    armedTarget: midiLearnTarget,
+    mappings: midiMappings,
+    onArm: armMidiLearn,
+    onForget: forgetMidiControl,
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const input = e.currentTarget;
     const file = input.files?.[0];
@@ -52,6 +76,28 @@ export const Header: React.FC = () => {
         >
           <RiUpload2Fill className="text-lg" />
         </button>
+        <ProjectControls
+          canSave={duration > 0 && !isAnalyzing}
+          onSave={saveProject}
+          onOpen={openProject}
+        />
+        <ExportControls
+          canExport={duration > 0 && pads.some(p => p.cuePoint !== null)}
+          isExporting={isExporting}
+          selectedPadLabel={selectedPad?.label ?? null}
+          onExportSelected={format => selectedPad && exportPads([selectedPad.id], format)}
+          onExportAll={format => exportPads(pads.map(p => p.id), format)}
+          onExportInstrument={exportInstrument}
+          onExportMarkedWav={exportMarkedWav}
+        />
+        <HistoryControls
+          canUndo={canUndo}
+          canRedo={canRedo}
+          undoLabel={undoLabel}
+          redoLabel={redoLabel}
+          onUndo={undo}
+          onRedo={redo}
+        />
         {fileLoadStatus && (
           <div className="flex items-center gap-1.5 px-2 py-1 text-[11px] font-medium text-gray-400 whitespace-nowrap">
             <RiLoader4Line className="text-sm animate-spin" />
@@ -60,20 +106,46 @@ export const Header: React.FC = () => {
         )}
       </div>
 
-      <HeaderControls
-        detectedKeyIndex={detectedKeyIndex}
-        globalKeyShift={globalKeyShift}
-        onKeyShiftChange={setGlobalKeyShift}
-        keyMode={keyMode}
-        currentBpm={currentBpm}
-        detectedBpm={detectedBpm}
-        onBpmChange={setBpm}
-        isAnalyzing={isAnalyzing}
-        playMode={playMode}
-        setPlayMode={setPlayMode}
-        masterVolume={masterVolume}
-        setMasterVolume={setMasterVolume}
-      />
+      <div className="flex items-center gap-4">
+        <MidiControls
+          isConnected={isMidiConnected}
+          onConnect={connectMidi}
+          inputs={midiInputs}
+          inputId={midiInputId}
+          onInputChange={selectMidiInput}
+          isLearning={isMidiLearning}
+          onLearnToggle={() => setMidiLearning(!isMidiLearning)}
+        />
+        <MetronomeControls
+          isOn={isMetronomeOn}
+          onToggle={() => setMetronomeOn(!isMetronomeOn)}
+          volume={metronomeVolume}
+          onVolumeChange={setMetronomeVolume}
+          countInBars={countInBars}
+          onCountInChange={setCountInBars}
+        />
+        <HeaderControls
+          detectedKeyIndex={detectedKeyIndex}
+          globalKeyShift={globalKeyShift}
+          onKeyShiftChange={setGlobalKeyShift}
+          keyMode={keyMode}
+          detectedKey={detectedKey}
+          keyCandidates={keyCandidates}
+          onKeyCandidate={chooseKeyCandidate}
+          currentBpm={currentBpm}
+          detectedBpm={detectedBpm}
+          onBpmChange={setBpm}
+          onBpmScale={scaleBpm}
+          bpmCandidates={bpmCandidates}
+          onBpmCandidate={chooseBpmCandidate}
+          isAnalyzing={isAnalyzing}
+          playMode={playMode}
+          setPlayMode={setPlayMode}
+          masterVolume={masterVolume}
+          setMasterVolume={setMasterVolume}
+          midiLearn={midiLearn}
+        />
+      </div>
     </header>
   );
 };
@@ -0,0 +1,47 @@
+import React from 'react';
+import { MidiMapping, MidiTarget, describeControl, findControl } from '@/lib/midi';
+
+/** What a learnable control needs to know about MIDI learn */
+export interface MidiLearnState {
+  isLearning: boolean;
+  armedTarget: MidiTarget | null;
+  mappings: MidiMapping;
+  onArm: (target: MidiTarget) => void;
+  onForget: (target: MidiTarget) => void;
+}
+
+interface MidiLearnableProps {
+  target: MidiTarget;
+  learn: MidiLearnState;
+  children: React.ReactNode;
+}
+
+/**
+ * Wraps a control that a MIDI controller can be learned to.
+ * In learn mode the control is covered: click it, then move a controller to bind it, right-click to unbind.
+ */
+export const MidiLearnable: React.FC<MidiLearnableProps> = ({ target, learn, children }) => {
+  const control = findControl(learn.mappings, target);
+  const isArmed = learn.armedTarget === target;
+
+  return (
+    <div className="relative">
+      {children}
+      {learn.isLearning && (
+        <button
+          onClick={() => learn.onArm(target)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            learn.onForget(target);
+          }}
+          className={`absolute -inset-1 z-10 rounded-sm flex items-end justify-center ring-2 transition-colors ${isArmed ? 'ring-primary bg-primary/20 animate-pulse' : 'ring-primary/40 bg-black/40 hover:bg-primary/10'}`}
+          title={isArmed ? 'Move a controller to bind it' : 'Click, then move a controller to bind it (right-click to unbind)'}
+        >
+          <span className="mb-0.5 px-1 rounded-sm bg-black/70 font-mono text-[10px] font-bold text-primary whitespace-nowrap">
+            {control ? describeControl(control) : '--'}
+          </span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ interface PadProps {
   colorClass: string;
   isEmpty?: boolean;
   isPressed?: boolean;
+  isSilenced?: boolean;   // Muted, or another pad is soloed
   onMouseDown?: (e: React.MouseEvent) => void;
   onMouseUp?: () => void;
   onMouseLeave?: () => void;
@@ -14,12 +15,14 @@ interface PadProps {
 /**
  * Individual pad component with visual feedback and interaction handlers.
  * Displays different styles for empty vs active states and provides pressed animation.
+ * Pads that can't be heard in the mix are dimmed.
  */
 export const Pad: React.FC<PadProps> = ({
   label,
   colorClass,
   isEmpty = false,
   isPressed = false,
+  isSilenced = false,
   onMouseDown,
   onMouseUp,
   onMouseLeave,
@@ -33,7 +36,7 @@ export const Pad: React.FC<PadProps> = ({
   const shadowStyle = isPressed ? "shadow-pad-pressed translate-y-px" : "shadow-pad-raised";
   const activeStyle = `cursor-pointer hover:brightness-110 ${shadowStyle}`;
 
-  const combinedClasses = `${baseClasses} ${isEmpty ? emptyStyle : colorClass + ' ' + activeStyle}`;
+  const combinedClasses = `${baseClasses} ${isEmpty ? emptyStyle : colorClass + ' ' + activeStyle} ${!isEmpty && isSilenced ? 'opacity-40' : ''}`;
 
   return (
     <button
@@ -1,20 +1,31 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Pad } from './Pad';
 import { useAudio, useAudioTime } from '@/context/AudioContext';
+import { PAD_CLICK_MIN_VELOCITY } from '@/config/constants';
 
 /**
  * Grid of 20 pads with keyboard and mouse interaction support.
  * Handles gate/trigger modes and visual feedback for pressed states.
+ * Clicking higher up on a pad hits it harder; keys always hit at full velocity.
  */
 export const PadGrid: React.FC = () => {
-  const { pads, triggerPad, stopPad, setPadCuePoint, clearPad, playMode } = useAudio();
+  const { pads, triggerPad, stopPad, releasePadLoop, setPadCuePoint, clearPad, playMode, snap } = useAudio();
   const currentTime = useAudioTime();
 
   const activeKeysRef = useRef<Set<string>>(new Set());
-  const currentlyPlayingPadRef = useRef<string | null>(null);
+  const playingPadsRef = useRef<Set<string>>(new Set());
   const [pressedPads, setPressedPads] = useState<Set<string>>(new Set());
 
 
+  // Letting go of a held pad ends its sustain loop, and in gate mode stops it.
+  // In trigger mode other loops play on until the pad is hit again (see triggerPad)
+  const releasePad = useCallback((id: string) => {
+    releasePadLoop(id);
+    if (playMode === 'gate') {
+      stopPad(id);
+    }
+  }, [releasePadLoop, stopPad, playMode]);
+
   // Keep track of current time without triggering re-renders of the effect
   const currentTimeRef = useRef(currentTime);
   useEffect(() => {
@@ -25,6 +36,7 @@ export const PadGrid: React.FC = () => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.repeat) return;
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.ctrlKey || e.metaKey) return; // Shortcuts like Ctrl+Z
 
       const pad = pads.find(p => p.key === e.code);
       if (pad) {
@@ -34,10 +46,11 @@ export const PadGrid: React.FC = () => {
 
         if (pad.cuePoint !== null) {
           triggerPad(pad.id);
-          currentlyPlayingPadRef.current = pad.id;
+          playingPadsRef.current.add(pad.id);
         } else {
-          // Create new pad at current time if empty
-          setPadCuePoint(pad.id, currentTimeRef.current);
+          // Create new pad at current time if empty (snapped, unless Alt is held)
+          const time = currentTimeRef.current;
+          setPadCuePoint(pad.id, e.altKey ? time : snap(time));
         }
       }
     };
@@ -55,10 +68,10 @@ export const PadGrid: React.FC = () => {
           return next;
         });
 
-        if (playMode === 'gate' && pad.cuePoint !== null && currentlyPlayingPadRef.current === pad.id) {
-          stopPad(pad.id);
-          currentlyPlayingPadRef.current = null;
+        if (pad.cuePoint !== null && playingPadsRef.current.has(pad.id)) {
+          releasePad(pad.id);
         }
+        playingPadsRef.current.delete(pad.id);
       }
     };
 
@@ -68,7 +81,7 @@ export const PadGrid: React.FC = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [pads, triggerPad, stopPad, playMode, setPadCuePoint]);
+  }, [pads, triggerPad, releasePad, setPadCuePoint, snap]);
 
   const handlePadMouseDown = (id: string, e: React.MouseEvent) => {
     if (e.button !== 0 || e.ctrlKey) return;
@@ -79,10 +92,13 @@ export const PadGrid: React.FC = () => {
     setPressedPads(prev => new Set(prev).add(id));
 
     if (pad.cuePoint !== null) {
-      triggerPad(id);
-      currentlyPlayingPadRef.current = id; // Track which pad is now active
+      const rect = e.currentTarget.getBoundingClientRect();
+      const height = Math.max(1, rect.height);
+      const fromTop = Math.max(0, Math.min(1, (e.clientY - rect.top) / height));
+      triggerPad(id, 1 - fromTop * (1 - PAD_CLICK_MIN_VELOCITY));
+      playingPadsRef.current.add(id); // Track which pads are held
     } else {
-      setPadCuePoint(id, currentTime);
+      setPadCuePoint(id, e.altKey ? currentTime : snap(currentTime));
     }
   };
 
@@ -93,10 +109,10 @@ export const PadGrid: React.FC = () => {
       return next;
     });
 
-    if (playMode === 'gate' && currentlyPlayingPadRef.current === id) {
-      stopPad(id);
-      currentlyPlayingPadRef.current = null;
+    if (playingPadsRef.current.has(id)) {
+      releasePad(id);
     }
+    playingPadsRef.current.delete(id);
   };
 
   const handlePadMouseLeave = (id: string) => {
@@ -107,13 +123,15 @@ export const PadGrid: React.FC = () => {
       return next;
     });
 
-    // Only stop if this is the CURRENTLY PLAYING pad
-    if (playMode === 'gate' && currentlyPlayingPadRef.current === id) {
-      stopPad(id);
-      currentlyPlayingPadRef.current = null;
+    // Only release if this pad is being held
+    if (playingPadsRef.current.has(id)) {
+      releasePad(id);
     }
+    playingPadsRef.current.delete(id);
   };
 
+  const anySolo = pads.some(p => p.params.isSoloed);
+
   const handlePadContextMenu = (id: string, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -129,6 +147,7 @@ export const PadGrid: React.FC = () => {
           colorClass={pad.color}
           isEmpty={pad.cuePoint === null}
           isPressed={pressedPads.has(pad.id)}
+          isSilenced={pad.params.isMuted || (anySolo && !pad.params.isSoloed)}
           onMouseDown={(e) => handlePadMouseDown(pad.id, e)}
           onMouseUp={() => handlePadMouseUp(pad.id)}
           onMouseLeave={() => handlePadMouseLeave(pad.id)}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { RiHistoryLine, RiCloseLine } from 'react-icons/ri';
+import { useAudio } from '@/context/AudioContext';
+
+/**
+ * Banner offering to restore the autosaved session from last time.
+ */
+export const RestorePrompt: React.FC = () => {
+  const { storedSession, restoreSession, dismissSession } = useAudio();
+
+  if (!storedSession) return null;
+
+  const savedAt = new Date(storedSession.project.savedAt).toLocaleString();
+
+  return (
+    <div className="shrink-0 bg-surface-dark border-b border-black/50 px-4 py-2 flex items-center gap-3 text-xs text-gray-300">
+      <RiHistoryLine className="text-base text-primary" />
+      <span className="select-none">
+        Restore your last session with <span className="font-semibold text-white">{storedSession.audio.name}</span> from {savedAt}?
+      </span>
+      <button
+        onClick={() => void restoreSession()}
+        className="px-3 py-1 rounded-sm bg-surface-light text-gray-300 hover:text-white shadow-ui-element-raised active:shadow-ui-element-pressed transition-all"
+      >
+        Restore
+      </button>
+      <button
+        onClick={dismissSession}
+        className="p-1 rounded-sm text-gray-500 hover:text-white transition-colors"
+        title="Discard the saved session"
+      >
+        <RiCloseLine className="text-base" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RiPlayFill, RiStopFill, RiEraserLine, RiRecordCircleFill } from 'react-icons/ri';
+import { useAudio } from '@/context/AudioContext';
+import { Knob } from '@/components/Knob';
+import {
+  PATTERN_BARS, QUANTIZE_GRIDS, TIME_SIGNATURES, RecordMode, formatTimeSignature, patternBars, stepVelocity, stepsPerBar, stepsPerBeat
+} from '@/lib/pattern';
+import { DRAG_SENSITIVITY_PX, SWING_MAX, SWING_MIN } from '@/config/constants';
+
+// Movement before a press on a step counts as a velocity drag rather than a click
+const DRAG_THRESHOLD_PX = 3;
+
+const RECORD_MODES: { value: RecordMode; label: string }[] = [
+  { value: 'overdub', label: 'Overdub' },
+  { value: 'replace', label: 'Replace' },
+];
+
+interface SegmentedProps<T> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+// Row of buttons with one of them lit, captioned like the knobs
+const Segmented = <T,>({ label, options, value, onChange }: SegmentedProps<T>) => (
+  <div className="flex flex-col items-center gap-1">
+    <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset">
+      {options.map(option => (
+        <button
+          key={option.label}
+          onClick={() => onChange(option.value)}
+          className={`h-7 px-2 rounded-sm font-mono text-xs font-bold transition-all ${option.value === value ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+    <span className="text-xs font-semibold text-gray-400 select-none">{label}</span>
+  </div>
+);
+
+/**
+ * Step sequencer: a grid of chopped pads by steps (16th notes) at the current BPM.
+ * Click a step to turn it on or off, drag an active step up or down to set its velocity.
+ * Recording captures pads played from the keyboard or mouse, quantized to the input grid.
+ * Hits are scheduled ahead on the audio clock; the pattern starts and stops with the transport, or on its own button.
+ */
+export const SequencerPanel: React.FC = () => {
+  const {
+    pads, duration, audioEngine, sequencer, pattern, isSequencerPlaying,
+    startSequencer, stopSequencer, setPatternStep, setPatternBars, setTimeSignature, clearPattern,
+    setSwing, applyQuantize, isRecording, isCountingIn, recordMode, inputQuantize,
+    startRecording, stopRecording, setRecordMode, setInputQuantize
+  } = useAudio();
+
+  const [currentStep, setCurrentStep] = useState<number | null>(null);
+  const [isInteractingSwing, setIsInteractingSwing] = useState(false);
+  const dragControllerRef = useRef<AbortController | null>(null);
+
+  // Cleanup drag listeners on unmount
+  useEffect(() => {
+    return () => {
+      dragControllerRef.current?.abort();
+    };
+  }, []);
+
+  // Follow the step being heard
+  useEffect(() => {
+    if (!isSequencerPlaying) {
+      setCurrentStep(null);
+      return;
+    }
+
+    let frame: number;
+    const update = () => {
+      setCurrentStep(sequencer.currentStep(audioEngine.getContextTime()));
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [isSequencerPlaying, sequencer, audioEngine]);
+
+  const rows = pads.filter(p => p.cuePoint !== null);
+  const barSteps = stepsPerBar(pattern.timeSignature);
+  const beatSteps = stepsPerBeat(pattern.timeSignature);
+  const steps = Array.from({ length: pattern.length }, (_, i) => i);
+
+  const handleStepMouseDown = (padId: string, step: number, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const startY = e.clientY;
+    const startVelocity = stepVelocity(pattern, padId, step);
+    let isDragging = false;
+
+    dragControllerRef.current?.abort();
+    dragControllerRef.current = new AbortController();
+    const { signal } = dragControllerRef.current;
+
+    const mouseMove = (ev: MouseEvent) => {
+      const deltaY = startY - ev.clientY;
+      if (!isDragging && (startVelocity === 0 || Math.abs(deltaY) < DRAG_THRESHOLD_PX)) return;
+      isDragging = true;
+      document.body.style.cursor = 'ns-resize';
+      setPatternStep(padId, step, Math.max(0.01, startVelocity + deltaY / DRAG_SENSITIVITY_PX / 100));
+    };
+
+    const mouseUp = () => {
+      if (!isDragging) {
+        setPatternStep(padId, step, startVelocity > 0 ? 0 : 1);
+      }
+      dragControllerRef.current?.abort();
+      document.body.style.cursor = 'default';
+    };
+
+    window.addEventListener('mousemove', mouseMove, { signal });
+    window.addEventListener('mouseup', mouseUp, { signal });
+  };
+
+  return (
+    <div className="shrink-0 bg-surface-dark rounded-sm p-4 flex flex-col gap-3 shadow-ui-element-inset">
+      <div className="flex items-center gap-4 md:gap-8 overflow-x-auto">
+        <button
+          onClick={() => isSequencerPlaying ? stopSequencer() : startSequencer()}
+          disabled={duration <= 0}
+          className={`w-16 h-10 rounded flex items-center justify-center transition-all duration-100 bg-surface-light hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none ${isSequencerPlaying ? 'text-primary' : 'text-gray-400 hover:text-white'}`}
+          title={isSequencerPlaying ? 'Stop the pattern' : 'Play the pattern'}
+        >
+          {isSequencerPlaying ? <RiStopFill className="text-2xl" /> : <RiPlayFill className="text-2xl" />}
+        </button>
+
+        <button
+          onClick={() => isRecording ? stopRecording() : startRecording()}
+          disabled={duration <= 0}
+          className={`w-10 h-10 rounded flex items-center justify-center transition-all duration-100 bg-surface-light hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none ${isRecording ? 'text-red-500' : 'text-gray-400 hover:text-white'} ${isCountingIn ? 'animate-pulse' : ''}`}
+          title={isRecording ? 'Stop recording' : 'Record pads into the pattern (counts in first when stopped)'}
+        >
+          <RiRecordCircleFill className="text-xl" />
+        </button>
+
+        <Segmented label="Record" options={RECORD_MODES} value={recordMode} onChange={setRecordMode} />
+
+        <div className="flex items-start gap-1">
+          <Segmented label="Quantize" options={QUANTIZE_GRIDS} value={inputQuantize} onChange={setInputQuantize} />
+          <button
+            onClick={() => applyQuantize(inputQuantize)}
+            disabled={inputQuantize === 0}
+            className="h-9 px-2 rounded-sm font-mono text-xs font-bold bg-surface-light text-gray-400 hover:text-white shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none"
+            title="Move the hits already in the pattern onto the grid"
+          >
+            Apply
+          </button>
+        </div>
+
+        <Knob
+          label={isInteractingSwing ? `${Math.round(pattern.swing)}%` : 'Swing'}
+          min={SWING_MIN}
+          max={SWING_MAX}
+          value={pattern.swing}
+          onChange={setSwing}
+          onInteractChange={setIsInteractingSwing}
+        />
+
+        <Segmented
+          label="Bars"
+          options={PATTERN_BARS.map(bars => ({ value: bars, label: `${bars}` }))}
+          value={patternBars(pattern)}
+          onChange={setPatternBars}
+        />
+
+        <Segmented
+          label="Time"
+          options={TIME_SIGNATURES.map(timeSignature => ({ value: timeSignature, label: formatTimeSignature(timeSignature) }))}
+          value={TIME_SIGNATURES.find(t => formatTimeSignature(t) === formatTimeSignature(pattern.timeSignature))}
+          onChange={setTimeSignature}
+        />
+
+        <button
+          onClick={clearPattern}
+          className="w-10 h-10 rounded flex items-center justify-center transition-all duration-100 bg-surface-light text-gray-400 hover:text-white hover:bg-surface-light/80 shadow-ui-element-raised active:shadow-ui-element-pressed"
+          title="Clear the pattern"
+        >
+          <RiEraserLine className="text-xl" />
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-xs text-gray-500 select-none py-2">Chop some pads to sequence them.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className="flex flex-col gap-1 min-w-max">
+            {rows.map(pad => (
+              <div key={pad.id} className="flex items-center gap-1">
+                <span className={`w-6 h-6 shrink-0 rounded-sm flex items-center justify-center text-[10px] font-bold text-white ${pad.color}`}>
+                  {pad.label}
+                </span>
+                {steps.map(step => {
+                  const velocity = stepVelocity(pattern, pad.id, step);
+                  const isBarStart = step % barSteps === 0;
+                  const isBeatStart = step % beatSteps === 0;
+                  return (
+                    <button
+                      key={step}
+                      onMouseDown={(e) => handleStepMouseDown(pad.id, step, e)}
+                      className={`relative w-5 h-6 shrink-0 rounded-sm overflow-hidden ${isBarStart ? 'ml-1.5' : ''} ${isBeatStart ? 'bg-surface-light' : 'bg-background-dark'} ${currentStep === step ? 'ring-1 ring-white/60' : ''}`}
+                      title={velocity > 0 ? `Step ${step + 1}: ${Math.round(velocity * 100)}%` : `Step ${step + 1}`}
+                    >
+                      {velocity > 0 && (
+                        <span
+                          className={`absolute inset-x-0 bottom-0 ${pad.color}`}
+                          style={{ height: `${velocity * 100}%` }}
+                        />
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useDrag, usePinch } from '@use-gesture/react';
-import { useAudio, useAudioTime } from '@/context/AudioContext';
+import { useAudio, useAudioTime, Pad } from '@/context/AudioContext';
+import { barDuration, beatDuration, beatIndexAt, gridLines } from '@/lib/beatGrid';
 
 // ============================================================================
 // Configuration
@@ -24,6 +25,16 @@ const CONFIG = {
   MIN_ZOOM: 10,
   /** LOD levels configuration: [peaksPerSecond] from lowest to highest detail */
   LOD_LEVELS: [25, 50, 100, 200, 400],
+  /** Shortest slice a start/end flag drag can produce (seconds) */
+  MIN_SLICE_LENGTH: 0.01,
+  /** Vertical position of the loop bracket (pixels from the top) */
+  LOOP_BRACKET_Y: 24,
+  /** Minimum pixels between beat (or bar) lines before they are hidden */
+  MIN_GRID_SPACING: 8,
+  /** Height of the ticks marking tracked beats (pixels from the top) */
+  BEAT_TICK_HEIGHT: 6,
+  /** Vertical position of the downbeat handle (pixels from the bottom) */
+  DOWNBEAT_HANDLE_BOTTOM: 28,
 } as const;
 
 // Color map for cue point flags - matches rainbow gradient
@@ -57,6 +68,14 @@ const FLAG_COLOR_MAP: Record<string, string> = {
 // Time tick intervals in seconds
 const TICK_INTERVALS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300];
 
+/** Which edge of a pad's slice (or loop) a flag marks */
+type FlagEdge = 'start' | 'end' | 'loopStart' | 'loopEnd';
+
+interface FlagDrag {
+  padId: string;
+  edge: FlagEdge;
+}
+
 // ============================================================================
 // LOD Peak Data Structure
 // ============================================================================
@@ -87,7 +106,11 @@ export const WaveformDisplay: React.FC = () => {
 
   // Audio context
   const currentTime = useAudioTime();
-  const { audioEngine, duration, seek, play, pause, isPlaying, pads, setPadCuePoint } = useAudio();
+  const {
+    audioEngine, duration, seek, play, pause, isPlaying, pads, selectedPadId,
+    setPadCuePoint, setPadEndPoint, setPadLoopPoints, chopRegion, setChopRegion,
+    beatGrid, detectedBeats, setDownbeatOffset, snap
+  } = useAudio();
 
   // State
   const [peakData, setPeakData] = useState<PeakData>({ levels: [], isComplete: false });
@@ -98,15 +121,33 @@ export const WaveformDisplay: React.FC = () => {
   const dragStartTimeRef = useRef(0);
   const [isDragging, setIsDragging] = useState(false);
 
+  // Ctrl-drag (Cmd-drag on Mac) selects the chop region instead of scrubbing.
+  // Alt is left to bypassing the snap.
+  const regionAnchorRef = useRef<number | null>(null);
+
   // Flag dragging state
-  const [draggingFlagId, setDraggingFlagId] = useState<string | null>(null);
+  const [draggingFlag, setDraggingFlag] = useState<FlagDrag | null>(null);
   const flagDragStartX = useRef(0);
   const flagDragStartTime = useRef(0);
 
+  // Downbeat dragging state (shifts the whole beat grid)
+  const [isDraggingDownbeat, setIsDraggingDownbeat] = useState(false);
+  const downbeatDragStartX = useRef(0);
+  const downbeatDragStartOffset = useRef(0);
+
   // Cache gradient to avoid recreating every frame
   const gradientRef = useRef<CanvasGradient | null>(null);
   const lastHeightRef = useRef(0);
 
+  // Loop points actually played by a looping pad (unset points fall back to the slice bounds)
+  const getLoopBounds = useCallback((pad: Pad): { start: number; end: number } | null => {
+    if (pad.cuePoint === null || pad.params.loopMode === 'off') return null;
+    return {
+      start: pad.loopStart ?? pad.cuePoint,
+      end: pad.loopEnd ?? pad.endPoint ?? duration,
+    };
+  }, [duration]);
+
   // Calculate minimum zoom based on container width and duration
   const minZoom = useMemo(() => {
     if (duration <= 0 || dimensions.width <= 0) return CONFIG.MIN_ZOOM;
@@ -368,6 +409,57 @@ export const WaveformDisplay: React.FC = () => {
       lastHeightRef.current = height;
     }
 
+    // Draw beat and bar lines behind the waveform
+    if (beatGrid) {
+      const beatPx = beatDuration(beatGrid) * pixelsPerSecond;
+      const barPx = barDuration(beatGrid) * pixelsPerSecond;
+      if (barPx >= CONFIG.MIN_GRID_SPACING) {
+        const showBeats = beatPx >= CONFIG.MIN_GRID_SPACING;
+        const step = showBeats ? beatDuration(beatGrid) : barDuration(beatGrid);
+        const lines = gridLines(beatGrid, step, { start: visibleStartTime, end: visibleEndTime + step });
+
+        lines.forEach(t => {
+          const isBar = beatIndexAt(beatGrid, t) % beatGrid.beatsPerBar === 0;
+          const x = startX + t * pixelsPerSecond;
+          ctx.fillStyle = isBar ? 'rgba(255, 255, 255, 0.18)' : 'rgba(255, 255, 255, 0.07)';
+          ctx.fillRect(x - 0.5, 0, 1, height);
+        });
+
+        // Tick the beats the tracker heard along the top, so grid drift shows against them
+        if (showBeats) {
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+          detectedBeats.forEach(t => {
+            if (t < visibleStartTime || t > visibleEndTime) return;
+            const x = startX + t * pixelsPerSecond;
+            ctx.fillRect(x - 0.5, 0, 1, CONFIG.BEAT_TICK_HEIGHT);
+          });
+        }
+      }
+    }
+
+    // Shade the chop region
+    if (chopRegion) {
+      const regionStartX = startX + chopRegion.start * pixelsPerSecond;
+      const regionEndX = startX + chopRegion.end * pixelsPerSecond;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+      ctx.fillRect(regionStartX, 0, regionEndX - regionStartX, height);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+      ctx.fillRect(regionStartX, 0, 1, height);
+      ctx.fillRect(regionEndX - 1, 0, 1, height);
+    }
+
+    // Shade the selected pad's slice
+    const selectedPad = pads.find(p => p.id === selectedPadId);
+    if (selectedPad && selectedPad.cuePoint !== null && selectedPad.endPoint !== null) {
+      const sliceStartX = startX + selectedPad.cuePoint * pixelsPerSecond;
+      const sliceEndX = startX + selectedPad.endPoint * pixelsPerSecond;
+      ctx.globalAlpha = 0.15;
+      ctx.fillStyle = FLAG_COLOR_MAP[selectedPad.color] || '#ffffff';
+      ctx.fillRect(sliceStartX, 0, sliceEndX - sliceStartX, height);
+      ctx.globalAlpha = 1;
+    }
+    const selectedLoop = selectedPad ? getLoopBounds(selectedPad) : null;
+
     // Draw waveform - NO SKIPPING, LOD handles density
     ctx.lineWidth = 2;
     ctx.strokeStyle = gradientRef.current;
@@ -419,8 +511,64 @@ export const WaveformDisplay: React.FC = () => {
       ctx.lineTo(x, height - 12);
       ctx.closePath();
       ctx.fill();
+
+      // End flag: dashed line with flags pointing back into the slice
+      if (pad.endPoint === null) return;
+      const endX = startX + pad.endPoint * pixelsPerSecond;
+      if (endX < -20 || endX > width + 20) return;
+
+      ctx.beginPath();
+      ctx.setLineDash([4, 4]);
+      ctx.moveTo(endX, 0);
+      ctx.lineTo(endX, height);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.beginPath();
+      ctx.moveTo(endX, 0);
+      ctx.lineTo(endX - 12, 0);
+      ctx.lineTo(endX, 12);
+      ctx.closePath();
+      ctx.fill();
+
+      ctx.beginPath();
+      ctx.moveTo(endX, height);
+      ctx.lineTo(endX - 12, height);
+      ctx.lineTo(endX, height - 12);
+      ctx.closePath();
+      ctx.fill();
     });
 
+    // Draw the selected pad's loop bracket
+    if (selectedPad && selectedLoop) {
+      const loopStartX = startX + selectedLoop.start * pixelsPerSecond;
+      const loopEndX = startX + selectedLoop.end * pixelsPerSecond;
+      const y = CONFIG.LOOP_BRACKET_Y;
+
+      ctx.strokeStyle = FLAG_COLOR_MAP[selectedPad.color] || '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(loopStartX, y + 8);
+      ctx.lineTo(loopStartX, y);
+      ctx.lineTo(loopEndX, y);
+      ctx.lineTo(loopEndX, y + 8);
+      ctx.stroke();
+    }
+
+    // Draw the first downbeat's handle (drag it to shift the grid)
+    if (beatGrid) {
+      const x = startX + beatGrid.offset * pixelsPerSecond;
+      const y = height - CONFIG.DOWNBEAT_HANDLE_BOTTOM;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+      ctx.beginPath();
+      ctx.moveTo(x, y - 6);
+      ctx.lineTo(x + 6, y);
+      ctx.lineTo(x, y + 6);
+      ctx.lineTo(x - 6, y);
+      ctx.closePath();
+      ctx.fill();
+    }
+
     // Draw Time Ticks
     ctx.fillStyle = '#9ca3af';
     ctx.font = '10px monospace';
@@ -454,15 +602,42 @@ export const WaveformDisplay: React.FC = () => {
     ctx.shadowBlur = 0;
     ctx.shadowColor = 'transparent';
 
-  }, [selectedLOD, zoom, currentTime, duration, dimensions, pads]);
+  }, [selectedLOD, zoom, currentTime, duration, dimensions, pads, selectedPadId, getLoopBounds, chopRegion, beatGrid, detectedBeats]);
 
   // ============================================================================
   // Gesture Handlers
   // ============================================================================
 
+  // Time under the pointer, given the playhead sits in the middle of the view
+  const timeAtClientX = (clientX: number): number => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return currentTime;
+    const time = currentTime + (clientX - rect.left - rect.width / 2) / zoom;
+    return Math.max(0, Math.min(duration, time));
+  };
+
   const bindDrag = useDrag(
-    ({ first, active, movement: [mx], tap, event }) => {
-      if (draggingFlagId) return;
+    ({ first, active, movement: [mx], tap, event, xy: [x] }) => {
+      if (draggingFlag || isDraggingDownbeat) return;
+
+      // Ctrl-drag selects the chop region, Ctrl-click clears it
+      const mouseEvent = event as MouseEvent;
+      if (first && (mouseEvent.ctrlKey || mouseEvent.metaKey) && !mouseEvent.shiftKey) {
+        regionAnchorRef.current = timeAtClientX(x);
+      }
+      if (regionAnchorRef.current !== null) {
+        const anchor = regionAnchorRef.current;
+        if (tap) {
+          setChopRegion(null);
+        } else {
+          const time = timeAtClientX(x);
+          if (Math.abs(time - anchor) > 0) {
+            setChopRegion({ start: Math.min(anchor, time), end: Math.max(anchor, time) });
+          }
+        }
+        if (!active) regionAnchorRef.current = null;
+        return;
+      }
 
       if (first) {
         dragStartTimeRef.current = currentTime;
@@ -487,7 +662,13 @@ export const WaveformDisplay: React.FC = () => {
           const timeOffset = pixelsFromCenter / zoom;
           const clickedTime = currentTime + timeOffset;
           const newTime = Math.max(0, Math.min(duration, clickedTime));
-          seek(newTime);
+
+          // Shift-click places the selected pad's end point instead of seeking (Alt skips snapping)
+          if ((event as MouseEvent).shiftKey && selectedPadId) {
+            setPadEndPoint(selectedPadId, (event as MouseEvent).altKey ? newTime : snap(newTime));
+          } else {
+            seek(newTime);
+          }
         }
       }
     },
@@ -516,46 +697,120 @@ export const WaveformDisplay: React.FC = () => {
   // Flag Drag Handlers
   // ============================================================================
 
-  const handleFlagMouseDown = useCallback((padId: string, e: React.MouseEvent) => {
+  const handleFlagMouseDown = useCallback((padId: string, edge: FlagEdge, e: React.MouseEvent) => {
+    if (e.button !== 0) return;
     e.stopPropagation();
 
     const pad = pads.find(p => p.id === padId);
-    if (!pad || pad.cuePoint === null) return;
-
-    setDraggingFlagId(padId);
+    if (!pad) return;
+    const loop = getLoopBounds(pad);
+    const flagTime = {
+      start: pad.cuePoint,
+      end: pad.endPoint,
+      loopStart: loop?.start ?? null,
+      loopEnd: loop?.end ?? null,
+    }[edge];
+    if (flagTime === null) return;
+
+    setDraggingFlag({ padId, edge });
     flagDragStartX.current = e.clientX;
-    flagDragStartTime.current = pad.cuePoint;
-  }, [pads]);
+    flagDragStartTime.current = flagTime;
+  }, [pads, getLoopBounds]);
 
-  const handleFlagMouseMove = useCallback((e: React.MouseEvent) => {
-    if (!draggingFlagId) return;
+  const handleFlagContextMenu = useCallback((padId: string, edge: FlagEdge, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    // Right-clicking an end flag removes it, so the pad plays to the end of the file again
+    if (edge === 'end') {
+      setPadEndPoint(padId, null);
+      return;
+    }
 
-    const deltaX = e.clientX - flagDragStartX.current;
+    // Right-clicking a loop handle snaps it back to the slice bound
+    const pad = pads.find(p => p.id === padId);
+    if (!pad) return;
+    if (edge === 'loopStart') {
+      setPadLoopPoints(padId, null, pad.loopEnd);
+    } else if (edge === 'loopEnd') {
+      setPadLoopPoints(padId, pad.loopStart, null);
+    }
+  }, [pads, setPadEndPoint, setPadLoopPoints]);
+
+  // Keeps the start flag before the end flag (and loop handles inside the slice) while dragging.
+  // Holding Alt bypasses snapping.
+  const moveFlag = useCallback((drag: FlagDrag, clientX: number, bypassSnap: boolean) => {
+    const deltaX = clientX - flagDragStartX.current;
     const deltaTime = deltaX / zoom;
-    const newTime = Math.max(0, Math.min(duration, flagDragStartTime.current + deltaTime));
+    const rawTime = flagDragStartTime.current + deltaTime;
+    const newTime = Math.max(0, Math.min(duration, bypassSnap ? rawTime : snap(rawTime)));
 
-    setPadCuePoint(draggingFlagId, newTime);
-  }, [draggingFlagId, zoom, duration, setPadCuePoint]);
+    const pad = pads.find(p => p.id === drag.padId);
+    if (!pad || pad.cuePoint === null) return;
+
+    const sliceEnd = pad.endPoint ?? duration;
+    const loop = getLoopBounds(pad);
+
+    if (drag.edge === 'start') {
+      const maxTime = pad.endPoint !== null ? pad.endPoint - CONFIG.MIN_SLICE_LENGTH : duration;
+      setPadCuePoint(drag.padId, Math.min(newTime, maxTime));
+    } else if (drag.edge === 'end') {
+      setPadEndPoint(drag.padId, Math.max(newTime, pad.cuePoint + CONFIG.MIN_SLICE_LENGTH));
+    } else if (loop && drag.edge === 'loopStart') {
+      const time = Math.max(pad.cuePoint, Math.min(newTime, loop.end - CONFIG.MIN_SLICE_LENGTH));
+      setPadLoopPoints(drag.padId, time, pad.loopEnd);
+    } else if (loop && drag.edge === 'loopEnd') {
+      const time = Math.min(sliceEnd, Math.max(newTime, loop.start + CONFIG.MIN_SLICE_LENGTH));
+      setPadLoopPoints(drag.padId, pad.loopStart, time);
+    }
+  }, [zoom, duration, pads, snap, getLoopBounds, setPadCuePoint, setPadEndPoint, setPadLoopPoints]);
+
+  const handleFlagMouseMove = useCallback((e: React.MouseEvent) => {
+    if (!draggingFlag) return;
+    moveFlag(draggingFlag, e.clientX, e.altKey);
+  }, [draggingFlag, moveFlag]);
 
   const handleFlagMouseUp = useCallback(() => {
-    setDraggingFlagId(null);
+    setDraggingFlag(null);
   }, []);
 
   useEffect(() => {
-    if (!draggingFlagId) return;
+    if (!draggingFlag) return;
 
     const controller = new AbortController();
 
     window.addEventListener('mouseup', handleFlagMouseUp, { signal: controller.signal });
     window.addEventListener('mousemove', (e) => {
-      const deltaX = e.clientX - flagDragStartX.current;
-      const deltaTime = deltaX / zoom;
-      const newTime = Math.max(0, Math.min(duration, flagDragStartTime.current + deltaTime));
-      setPadCuePoint(draggingFlagId, newTime);
+      moveFlag(draggingFlag, e.clientX, e.altKey);
+    }, { signal: controller.signal });
+
+    return () => controller.abort();
+  }, [draggingFlag, moveFlag, handleFlagMouseUp]);
+
+  // ============================================================================
+  // Downbeat Drag Handlers
+  // ============================================================================
+
+  const handleDownbeatMouseDown = useCallback((e: React.MouseEvent) => {
+    if (e.button !== 0 || !beatGrid) return;
+    e.stopPropagation();
+    setIsDraggingDownbeat(true);
+    downbeatDragStartX.current = e.clientX;
+    downbeatDragStartOffset.current = beatGrid.offset;
+  }, [beatGrid]);
+
+  useEffect(() => {
+    if (!isDraggingDownbeat) return;
+
+    const controller = new AbortController();
+
+    window.addEventListener('mouseup', () => setIsDraggingDownbeat(false), { signal: controller.signal });
+    window.addEventListener('mousemove', (e) => {
+      const deltaTime = (e.clientX - downbeatDragStartX.current) / zoom;
+      setDownbeatOffset(downbeatDragStartOffset.current + deltaTime);
     }, { signal: controller.signal });
 
     return () => controller.abort();
-  }, [draggingFlagId, zoom, duration, setPadCuePoint, handleFlagMouseUp]);
+  }, [isDraggingDownbeat, zoom, setDownbeatOffset]);
 
   // ============================================================================
   // Render
@@ -569,28 +824,41 @@ export const WaveformDisplay: React.FC = () => {
     const currentPixel = currentTime * zoom;
     const startX = centerX - currentPixel;
 
-    return pads
-      .filter(pad => pad.cuePoint !== null)
-      .map(pad => {
-        const padPixel = pad.cuePoint! * zoom;
-        const x = startX + padPixel;
-        return { pad, x };
-      })
-      .filter(({ x }) => x >= -20 && x <= dimensions.width + 20);
-  }, [pads, zoom, currentTime, dimensions.width]);
+    const flags: { pad: typeof pads[number]; edge: FlagEdge; x: number }[] = [];
+    pads.forEach(pad => {
+      if (pad.cuePoint === null) return;
+      flags.push({ pad, edge: 'start', x: startX + pad.cuePoint * zoom });
+      if (pad.endPoint !== null) {
+        flags.push({ pad, edge: 'end', x: startX + pad.endPoint * zoom });
+      }
+
+      // Only the selected pad shows its loop handles
+      const loop = pad.id === selectedPadId ? getLoopBounds(pad) : null;
+      if (loop) {
+        flags.push({ pad, edge: 'loopStart', x: startX + loop.start * zoom });
+        flags.push({ pad, edge: 'loopEnd', x: startX + loop.end * zoom });
+      }
+    });
+
+    return flags.filter(({ x }) => x >= -20 && x <= dimensions.width + 20);
+  }, [pads, selectedPadId, getLoopBounds, zoom, currentTime, dimensions.width]);
+
+  const downbeatX = beatGrid && dimensions.width > 0
+    ? dimensions.width / 2 + (beatGrid.offset - currentTime) * zoom
+    : null;
 
   const cursorStyle = useMemo(() => {
-    if (draggingFlagId) return 'ew-resize';
+    if (draggingFlag || isDraggingDownbeat) return 'ew-resize';
     if (isDragging) return 'grabbing';
     return 'crosshair';
-  }, [draggingFlagId, isDragging]);
+  }, [draggingFlag, isDraggingDownbeat, isDragging]);
 
   return (
     <div
       ref={containerRef}
       className="h-64 bg-surface-dark rounded-sm relative shadow-ui-element-inset overflow-hidden border border-black/50 touch-none"
       {...gestureBindings}
-      onMouseMove={draggingFlagId ? handleFlagMouseMove : undefined}
+      onMouseMove={draggingFlag ? handleFlagMouseMove : undefined}
       style={{ cursor: cursorStyle }}
     >
       <canvas
@@ -601,35 +869,80 @@ export const WaveformDisplay: React.FC = () => {
 
 
 
+      {/* Downbeat Handle */}
+      {downbeatX !== null && downbeatX >= -20 && downbeatX <= dimensions.width + 20 && (
+        <div
+          onMouseDown={handleDownbeatMouseDown}
+          className="absolute cursor-ew-resize hover:opacity-50"
+          style={{
+            left: `${downbeatX - 8}px`,
+            bottom: `${CONFIG.DOWNBEAT_HANDLE_BOTTOM - 8}px`,
+            width: '16px',
+            height: '16px',
+            pointerEvents: 'auto'
+          }}
+          title="Drag to line the beat grid up with the first downbeat"
+        />
+      )}
+
       {/* Interactive Flag Overlays - positions memoized */}
-      {visibleFlags.map(({ pad, x }) => (
-        <React.Fragment key={pad.id}>
-          <div
-            onMouseDown={(e) => handleFlagMouseDown(pad.id, e)}
-            className="absolute cursor-ew-resize hover:opacity-50"
-            style={{
-              left: `${x - 6}px`,
-              top: 0,
-              width: '20px',
-              height: '20px',
-              pointerEvents: 'auto'
-            }}
-            title={`Drag to reposition ${pad.label}`}
-          />
-          <div
-            onMouseDown={(e) => handleFlagMouseDown(pad.id, e)}
-            className="absolute cursor-ew-resize hover:opacity-50"
-            style={{
-              left: `${x - 6}px`,
-              bottom: 0,
-              width: '20px',
-              height: '20px',
-              pointerEvents: 'auto'
-            }}
-            title={`Drag to reposition ${pad.label}`}
-          />
-        </React.Fragment>
-      ))}
+      {visibleFlags.map(({ pad, edge, x }) => {
+        if (edge === 'loopStart' || edge === 'loopEnd') {
+          return (
+            <div
+              key={`${pad.id}-${edge}`}
+              onMouseDown={(e) => handleFlagMouseDown(pad.id, edge, e)}
+              onContextMenu={(e) => handleFlagContextMenu(pad.id, edge, e)}
+              className="absolute cursor-ew-resize hover:opacity-50"
+              style={{
+                left: `${x - 6}px`,
+                top: `${CONFIG.LOOP_BRACKET_Y - 6}px`,
+                width: '12px',
+                height: '16px',
+                pointerEvents: 'auto'
+              }}
+              title={`Drag to move the loop ${edge === 'loopStart' ? 'start' : 'end'} of ${pad.label}, right-click to reset`}
+            />
+          );
+        }
+
+        // Start flags point right of the line, end flags point left
+        const left = edge === 'start' ? x - 6 : x - 14;
+        const title = edge === 'start'
+          ? `Drag to reposition ${pad.label}`
+          : `Drag to move the end of ${pad.label}, right-click to remove`;
+
+        return (
+          <React.Fragment key={`${pad.id}-${edge}`}>
+            <div
+              onMouseDown={(e) => handleFlagMouseDown(pad.id, edge, e)}
+              onContextMenu={(e) => handleFlagContextMenu(pad.id, edge, e)}
+              className="absolute cursor-ew-resize hover:opacity-50"
+              style={{
+                left: `${left}px`,
+                top: 0,
+                width: '20px',
+                height: '20px',
+                pointerEvents: 'auto'
+              }}
+              title={title}
+            />
+            <div
+              onMouseDown={(e) => handleFlagMouseDown(pad.id, edge, e)}
+              onContextMenu={(e) => handleFlagContextMenu(pad.id, edge, e)}
+              className="absolute cursor-ew-resize hover:opacity-50"
+              style={{
+                left: `${left}px`,
+                bottom: 0,
+                width: '20px',
+                height: '20px',
+                pointerEvents: 'auto'
+              }}
+              title={title}
+            />
+          </React.Fragment>
+        );
+      })}
     </div>
   );
 };
@@ -0,0 +1,70 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RiArrowDownSLine } from 'react-icons/ri';
+
+export interface CandidateOption {
+    label: string;
+    score: number;      // 0-1, shown as a bar and percentage
+    isActive: boolean;
+    onSelect: () => void;
+}
+
+interface CandidateMenuProps {
+    title: string;
+    options: CandidateOption[];
+}
+
+/**
+ * Small dropdown listing the alternatives the analysis considered, best first,
+ * so a wrong guess can be swapped for another one in one click.
+ */
+export const CandidateMenu: React.FC<CandidateMenuProps> = ({ title, options }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close the menu when clicking elsewhere
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const controller = new AbortController();
+        window.addEventListener('mousedown', (e) => {
+            if (!menuRef.current?.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        }, { signal: controller.signal });
+
+        return () => controller.abort();
+    }, [isOpen]);
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                disabled={options.length === 0}
+                className="h-8 px-0.5 rounded-sm text-gray-500 hover:text-white hover:bg-surface-light transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                title={title}
+            >
+                <RiArrowDownSLine className="text-base" />
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-1 z-20 bg-surface-dark rounded-sm shadow-ui-element-raised border border-black/50 p-1 whitespace-nowrap flex flex-col">
+                    {options.map(option => (
+                        <button
+                            key={option.label}
+                            onClick={() => {
+                                setIsOpen(false);
+                                option.onSelect();
+                            }}
+                            className={`flex items-center gap-3 px-2 py-1 text-xs font-mono hover:bg-surface-light ${option.isActive ? 'text-primary' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            <span className="w-20 text-left">{option.label}</span>
+                            <span className="w-12 h-1 bg-background-dark rounded-full overflow-hidden">
+                                <span className="block h-full bg-primary/70" style={{ width: `${Math.max(0, option.score) * 100}%` }} />
+                            </span>
+                            <span className="w-8 text-right text-gray-500">{Math.round(Math.max(0, option.score) * 100)}%</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RiDownload2Fill, RiLoader4Line } from 'react-icons/ri';
+import { WavBitDepth, WavFormat, WAV_BIT_DEPTHS, WAV_SAMPLE_RATES } from '@/lib/wav';
+import { InstrumentExportOptions } from '@/context/AudioContext';
+
+interface ExportControlsProps {
+    canExport: boolean;
+    isExporting: boolean;
+    selectedPadLabel: string | null;    // Label of the selected pad, if it has a chop
+    onExportSelected: (format: WavFormat) => void;
+    onExportAll: (format: WavFormat) => void;
+    onExportInstrument: (options: InstrumentExportOptions) => void;
+    onExportMarkedWav: (format: WavFormat) => void;
+}
+
+/**
+ * Export button with a menu for rendering chops to WAV files, the whole kit to a sampler instrument,
+ * or the track to a WAV file with the cue points as markers.
+ * The format picked in the menu applies to every export.
+ */
+export const ExportControls: React.FC<ExportControlsProps> = ({
+    canExport,
+    isExporting,
+    selectedPadLabel,
+    onExportSelected,
+    onExportAll,
+    onExportInstrument,
+    onExportMarkedWav,
+}) => {
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    const [bitDepth, setBitDepth] = useState<WavBitDepth>(24);
+    const [sampleRate, setSampleRate] = useState<number | null>(null);
+    const [renderSamples, setRenderSamples] = useState(true);
+    const [includeDecentSampler, setIncludeDecentSampler] = useState(true);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close the menu when clicking elsewhere
+    useEffect(() => {
+        if (!isMenuOpen) return;
+
+        const controller = new AbortController();
+        window.addEventListener('mousedown', (e) => {
+            if (!menuRef.current?.contains(e.target as Node)) {
+                setIsMenuOpen(false);
+            }
+        }, { signal: controller.signal });
+
+        return () => controller.abort();
+    }, [isMenuOpen]);
+
+    const handleExport = (exportPads: (format: WavFormat) => void) => {
+        setIsMenuOpen(false);
+        exportPads({ bitDepth, sampleRate });
+    };
+
+    const handleExportInstrument = () => {
+        setIsMenuOpen(false);
+        onExportInstrument({ format: { bitDepth, sampleRate }, renderSamples, includeDecentSampler });
+    };
+
+    const optionClass = (isActive: boolean) =>
+        `h-6 px-1.5 rounded-sm font-mono text-[11px] font-bold transition-all ${isActive ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light'}`;
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => setIsMenuOpen(open => !open)}
+                disabled={!canExport || isExporting}
+                className="p-2 rounded-sm hover:bg-surface-light transition-colors shadow-ui-element-raised active:shadow-ui-element-pressed text-gray-400 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+                title="Export chops as WAV"
+            >
+                {isExporting
+                    ? <RiLoader4Line className="text-lg animate-spin" />
+                    : <RiDownload2Fill className="text-lg" />}
+            </button>
+            {isMenuOpen && (
+                <div className="absolute left-0 top-full mt-1 z-20 bg-surface-dark rounded-sm shadow-ui-element-raised border border-black/50 p-2 whitespace-nowrap flex flex-col gap-2">
+                    <div className="flex items-center justify-between gap-3">
+                        <span className="text-[11px] font-semibold text-gray-400">Bit depth</span>
+                        <div className="flex items-center gap-1 bg-background-dark rounded-sm p-0.5 shadow-ui-element-inset">
+                            {WAV_BIT_DEPTHS.map(depth => (
+                                <button key={depth} onClick={() => setBitDepth(depth)} className={optionClass(bitDepth === depth)}>
+                                    {depth === 32 ? '32f' : depth}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <span className="text-[11px] font-semibold text-gray-400">Sample rate</span>
+                        <div className="flex items-center gap-1 bg-background-dark rounded-sm p-0.5 shadow-ui-element-inset">
+                            <button onClick={() => setSampleRate(null)} className={optionClass(sampleRate === null)} title="Keep the source's sample rate">
+                                Src
+                            </button>
+                            {WAV_SAMPLE_RATES.map(rate => (
+                                <button key={rate} onClick={() => setSampleRate(rate)} className={optionClass(sampleRate === rate)}>
+                                    {rate / 1000}k
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="border-t border-black/50 -mx-2"></div>
+                    <button
+                        onClick={() => handleExport(onExportSelected)}
+                        disabled={!selectedPadLabel}
+                        className="block w-full text-left px-1 py-1 text-xs text-gray-300 hover:bg-surface-light hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+                    >
+                        Export pad {selectedPadLabel ?? ''}
+                    </button>
+                    <button
+                        onClick={() => handleExport(onExportAll)}
+                        className="block w-full text-left px-1 py-1 text-xs text-gray-300 hover:bg-surface-light hover:text-white"
+                    >
+                        Export all pads
+                    </button>
+                    <button
+                        onClick={() => handleExport(onExportMarkedWav)}
+                        className="block w-full text-left px-1 py-1 text-xs text-gray-300 hover:bg-surface-light hover:text-white"
+                        title="The whole track with the cue points as WAV markers, for other editors"
+                    >
+                        Save WAV with markers
+                    </button>
+                    <div className="border-t border-black/50 -mx-2"></div>
+                    <label className="flex items-center gap-2 px-1 text-[11px] text-gray-400 cursor-pointer" title="Bake speed, pitch and filter into the samples instead of copying the slices as they are">
+                        <input type="checkbox" checked={renderSamples} onChange={e => setRenderSamples(e.target.checked)} className="accent-primary" />
+                        Render samples
+                    </label>
+                    <label className="flex items-center gap-2 px-1 text-[11px] text-gray-400 cursor-pointer">
+                        <input type="checkbox" checked={includeDecentSampler} onChange={e => setIncludeDecentSampler(e.target.checked)} className="accent-primary" />
+                        Include DecentSampler preset
+                    </label>
+                    <button
+                        onClick={handleExportInstrument}
+                        className="block w-full text-left px-1 py-1 text-xs text-gray-300 hover:bg-surface-light hover:text-white"
+                        title="Zip of an SFZ instrument with one region per pad, from C1 up"
+                    >
+                        Export instrument
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,10 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { RiContractRightFill, RiArrowRightFill, RiVolumeUpFill } from 'react-icons/ri';
-import { BPM_MIN, BPM_MAX, DRAG_SENSITIVITY_PX, EDIT_MODE_DELAY_MS } from '@/config/constants';
+import { BPM_MIN, BPM_MAX, DRAG_SENSITIVITY_PX, EDIT_MODE_DELAY_MS, TAP_TEMPO_KEY } from '@/config/constants';
+import { TapTempo } from '@/lib/TapTempo';
+import { BpmCandidate, KeyCandidate } from '@/context/AudioContext';
+import { CandidateMenu } from './CandidateMenu';
+import { MidiLearnable, MidiLearnState } from '@/components/MidiLearnable';
 
 const KEYS_SHARP = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 const KEYS_FLAT = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
@@ -11,16 +15,24 @@ interface HeaderControlsProps {
     globalKeyShift: number;
     onKeyShiftChange: (shift: number) => void;
     keyMode: 'sharp' | 'flat';
+    detectedKey: string | null;
+    keyCandidates: KeyCandidate[];
+    onKeyCandidate: (candidate: KeyCandidate) => void;
     // BPM control
     currentBpm: number | null;
     detectedBpm: number | null;
     onBpmChange: (bpm: number) => void;
+    onBpmScale: (factor: number) => void;   // Fixes a half- or double-time detection
+    bpmCandidates: BpmCandidate[];
+    onBpmCandidate: (candidate: BpmCandidate) => void;
     isAnalyzing: boolean;
     // Transport controls
     playMode: 'gate' | 'trigger';
     setPlayMode: (mode: 'gate' | 'trigger') => void;
     masterVolume: number;
     setMasterVolume: (volume: number) => void;
+    // MIDI learn (the key shift and volume can be learned)
+    midiLearn: MidiLearnState;
 }
 
 export const HeaderControls: React.FC<HeaderControlsProps> = ({
@@ -28,14 +40,21 @@ export const HeaderControls: React.FC<HeaderControlsProps> = ({
     globalKeyShift,
     onKeyShiftChange,
     keyMode,
+    detectedKey,
+    keyCandidates,
+    onKeyCandidate,
     currentBpm,
     detectedBpm,
     onBpmChange,
+    onBpmScale,
+    bpmCandidates,
+    onBpmCandidate,
     isAnalyzing,
     playMode,
     setPlayMode,
     masterVolume,
-    setMasterVolume
+    setMasterVolume,
+    midiLearn
 }) => {
     // ========== Key Control State ==========
     const [isKeyDragging, setIsKeyDragging] = useState(false);
@@ -56,6 +75,7 @@ export const HeaderControls: React.FC<HeaderControlsProps> = ({
     const startBpmYRef = useRef(0);
     const isBpmClickRef = useRef(true);
     const bpmEditTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const [tapTempo] = useState(() => new TapTempo());
 
     // Focus inputs when editing
     useEffect(() => {
@@ -237,6 +257,27 @@ export const HeaderControls: React.FC<HeaderControlsProps> = ({
         }
     };
 
+    // Each tap after the first sets the BPM to the average of the recent taps
+    const handleTap = useCallback((time: number) => {
+        if (!currentBpm) return;
+        const bpm = tapTempo.tap(time);
+        if (bpm !== null) {
+            onBpmChange(Math.max(BPM_MIN, Math.min(BPM_MAX, bpm)));
+        }
+    }, [currentBpm, tapTempo, onBpmChange]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== TAP_TEMPO_KEY || e.repeat || e.ctrlKey || e.metaKey) return;
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            e.preventDefault();
+            handleTap(e.timeStamp);
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [handleTap]);
+
     const validateAndUpdateBpm = (valueStr: string) => {
         const val = parseFloat(valueStr);
         if (!isNaN(val) && val >= BPM_MIN && val <= BPM_MAX) {
@@ -275,28 +316,39 @@ export const HeaderControls: React.FC<HeaderControlsProps> = ({
             {/* Key Control */}
             <div className="flex items-center gap-2">
                 <span className="text-xs text-gray-400 select-none">KEY</span>
-                <div
-                    onMouseDown={handleKeyMouseDown}
-                    onDoubleClick={handleKeyDoubleClick}
-                    className={`group bg-background-dark rounded-sm w-20 h-8 px-2 flex items-center justify-between font-semibold shadow-ui-element-inset transition-colors 
-                        ${detectedKeyIndex !== null ? 'cursor-ns-resize' : 'cursor-not-allowed opacity-50'}`}
-                    title={detectedKeyIndex !== null ? "Click to edit, Drag to change, Double-click to reset" : "Upload file to enable"}
-                >
-                    <span className={`text-base text-left font-mono ${keyBaseColor} ${detectedKeyIndex !== null ? 'group-hover:text-primary' : ''} ${isKeyDragging ? 'text-primary' : ''}`}>{noteName}</span>
-                    {isKeyEditing ? (
-                        <input
-                            ref={keyInputRef}
-                            type="text"
-                            value={keyInputValue}
-                            onChange={(e) => setKeyInputValue(e.target.value)}
-                            onKeyDown={handleKeyInputKeyDown}
-                            onBlur={handleKeyInputBlur}
-                            className={`w-8 h-full bg-transparent text-right text-xs font-mono outline-none ${keyBaseColor}`}
-                        />
-                    ) : (
-                        <span className={`text-xs text-right font-mono text-gray-500 ${detectedKeyIndex !== null ? 'group-hover:text-primary/70' : ''} ${isKeyDragging ? 'text-primary/70' : ''}`}>{offsetText}</span>
-                    )}
-                </div>
+                <MidiLearnable target="globalKeyShift" learn={midiLearn}>
+                    <div
+                        onMouseDown={handleKeyMouseDown}
+                        onDoubleClick={handleKeyDoubleClick}
+                        className={`group bg-background-dark rounded-sm w-20 h-8 px-2 flex items-center justify-between font-semibold shadow-ui-element-inset transition-colors 
+                            ${detectedKeyIndex !== null ? 'cursor-ns-resize' : 'cursor-not-allowed opacity-50'}`}
+                        title={detectedKeyIndex !== null ? "Click to edit, Drag to change, Double-click to reset" : "Upload file to enable"}
+                    >
+                        <span className={`text-base text-left font-mono ${keyBaseColor} ${detectedKeyIndex !== null ? 'group-hover:text-primary' : ''} ${isKeyDragging ? 'text-primary' : ''}`}>{noteName}</span>
+                        {isKeyEditing ? (
+                            <input
+                                ref={keyInputRef}
+                                type="text"
+                                value={keyInputValue}
+                                onChange={(e) => setKeyInputValue(e.target.value)}
+                                onKeyDown={handleKeyInputKeyDown}
+                                onBlur={handleKeyInputBlur}
+                                className={`w-8 h-full bg-transparent text-right text-xs font-mono outline-none ${keyBaseColor}`}
+                            />
+                        ) : (
+                            <span className={`text-xs text-right font-mono text-gray-500 ${detectedKeyIndex !== null ? 'group-hover:text-primary/70' : ''} ${isKeyDragging ? 'text-primary/70' : ''}`}>{offsetText}</span>
+                        )}
+                    </div>
+                </MidiLearnable>
+                <CandidateMenu
+                    title="Other keys the analysis found"
+                    options={keyCandidates.map(candidate => ({
+                        label: `${candidate.key} ${candidate.scale}`,
+                        score: candidate.strength,
+                        isActive: `${candidate.key} ${candidate.scale}` === detectedKey,
+                        onSelect: () => onKeyCandidate(candidate),
+                    }))}
+                />
             </div>
 
             {/* BPM Control */}
@@ -325,6 +377,43 @@ export const HeaderControls: React.FC<HeaderControlsProps> = ({
                         </span>
                     )}
                 </div>
+                <CandidateMenu
+                    title="Other tempos the analysis found (the track keeps its speed)"
+                    options={bpmCandidates.map(candidate => ({
+                        label: candidate.bpm.toFixed(2),
+                        score: candidate.confidence,
+                        isActive: detectedBpm !== null && Math.abs(candidate.bpm - detectedBpm) < 0.01,
+                        onSelect: () => onBpmCandidate(candidate),
+                    }))}
+                />
+                <div className="flex items-center gap-1">
+                    <button
+                        onMouseDown={(e) => e.button === 0 && handleTap(e.timeStamp)}
+                        disabled={!currentBpm}
+                        className="h-8 px-2 rounded-sm text-[11px] font-bold bg-surface-light text-gray-400 hover:text-white shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none select-none"
+                        title={`Tap the beat to set the BPM (${TAP_TEMPO_KEY.replace('Key', '')})`}
+                    >
+                        TAP
+                    </button>
+                    <div className="flex flex-col gap-px">
+                        <button
+                            onClick={() => onBpmScale(2)}
+                            disabled={!currentBpm || currentBpm * 2 > BPM_MAX}
+                            className="h-[15px] px-1 rounded-sm text-[10px] leading-none font-mono font-bold bg-surface-light text-gray-400 hover:text-white shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none"
+                            title="Detected at half time: double the BPM"
+                        >
+                            ×2
+                        </button>
+                        <button
+                            onClick={() => onBpmScale(0.5)}
+                            disabled={!currentBpm || currentBpm / 2 < BPM_MIN}
+                            className="h-[15px] px-1 rounded-sm text-[10px] leading-none font-mono font-bold bg-surface-light text-gray-400 hover:text-white shadow-ui-element-raised active:shadow-ui-element-pressed disabled:opacity-40 disabled:pointer-events-none"
+                            title="Detected at double time: halve the BPM"
+                        >
+                            ÷2
+                        </button>
+                    </div>
+                </div>
             </div>
 
             {/* Play Mode */}
@@ -346,17 +435,19 @@ export const HeaderControls: React.FC<HeaderControlsProps> = ({
             </div>
 
             {/* Volume */}
-            <div className="flex items-center gap-2 w-48">
-                <RiVolumeUpFill className="text-lg text-gray-400" />
-                <input
-                    className="w-full h-1.5 bg-surface-light rounded-lg appearance-none cursor-pointer shadow-ui-element-inset [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-primary [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer"
-                    type="range"
-                    min="0"
-                    max="100"
-                    value={masterVolume}
-                    onChange={(e) => setMasterVolume(parseInt(e.target.value))}
-                />
-            </div>
+            <MidiLearnable target="masterVolume" learn={midiLearn}>
+                <div className="flex items-center gap-2 w-48">
+                    <RiVolumeUpFill className="text-lg text-gray-400" />
+                    <input
+                        className="w-full h-1.5 bg-surface-light rounded-lg appearance-none cursor-pointer shadow-ui-element-inset [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-primary [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer"
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={masterVolume}
+                        onChange={(e) => setMasterVolume(parseInt(e.target.value))}
+                    />
+                </div>
+            </MidiLearnable>
         </div>
     );
 };
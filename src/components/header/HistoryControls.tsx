@@ -0,0 +1,44 @@
+import React from 'react';
+import { RiArrowGoBackLine, RiArrowGoForwardLine } from 'react-icons/ri';
+
+interface HistoryControlsProps {
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string | null;
+    redoLabel: string | null;
+    onUndo: () => void;
+    onRedo: () => void;
+}
+
+/**
+ * Undo and redo buttons. The tooltips name the step that would be undone or redone.
+ */
+export const HistoryControls: React.FC<HistoryControlsProps> = ({
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    onUndo,
+    onRedo,
+}) => {
+    return (
+        <div className="flex items-center gap-1">
+            <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="p-2 rounded-sm hover:bg-surface-light transition-colors shadow-ui-element-raised active:shadow-ui-element-pressed text-gray-400 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+                title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+            >
+                <RiArrowGoBackLine className="text-lg" />
+            </button>
+            <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className="p-2 rounded-sm hover:bg-surface-light transition-colors shadow-ui-element-raised active:shadow-ui-element-pressed text-gray-400 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+                title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+            >
+                <RiArrowGoForwardLine className="text-lg" />
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { RiTimerLine } from 'react-icons/ri';
+import { COUNT_IN_BARS, CountInBars } from '@/lib/pattern';
+
+interface MetronomeControlsProps {
+    isOn: boolean;
+    onToggle: () => void;
+    volume: number;     // 0-100
+    onVolumeChange: (volume: number) => void;
+    countInBars: CountInBars;
+    onCountInChange: (bars: CountInBars) => void;
+}
+
+/**
+ * Metronome toggle and volume, plus the bars counted in before recording.
+ * The count-in clicks even when the metronome is off.
+ */
+export const MetronomeControls: React.FC<MetronomeControlsProps> = ({
+    isOn,
+    onToggle,
+    volume,
+    onVolumeChange,
+    countInBars,
+    onCountInChange,
+}) => {
+    return (
+        <div className="flex items-center gap-2">
+            <button
+                onClick={onToggle}
+                className={`p-1.5 rounded-sm transition-all flex items-center justify-center shadow-ui-element-raised active:shadow-ui-element-pressed ${isOn ? 'text-primary bg-surface-light' : 'text-gray-400 hover:text-white hover:bg-surface-light'}`}
+                title={isOn ? 'Turn the metronome off' : 'Turn the metronome on'}
+            >
+                <RiTimerLine className="text-lg" />
+            </button>
+            <input
+                className="w-16 h-1.5 bg-surface-light rounded-lg appearance-none cursor-pointer shadow-ui-element-inset [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary [&::-webkit-slider-thumb]:cursor-pointer [&::-moz-range-thumb]:w-3 [&::-moz-range-thumb]:h-3 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-primary [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer"
+                type="range"
+                min="0"
+                max="100"
+                value={volume}
+                onChange={(e) => onVolumeChange(parseInt(e.target.value))}
+                title="Metronome volume"
+            />
+            <div className="flex items-center gap-1 bg-background-dark rounded-sm p-1 shadow-ui-element-inset" title="Bars counted in before recording">
+                {COUNT_IN_BARS.map(bars => (
+                    <button
+                        key={bars}
+                        onClick={() => onCountInChange(bars)}
+                        className={`h-6 px-1.5 rounded-sm font-mono text-[11px] font-bold transition-all ${countInBars === bars ? 'text-primary bg-surface-light shadow-ui-element-raised' : 'text-gray-500 hover:text-white hover:bg-surface-light active:shadow-ui-element-pressed'}`}
+                    >
+                        {bars === 0 ? 'Off' : `${bars} bar`}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { RiKeyboardLine } from 'react-icons/ri';
+import { MidiInputInfo } from '@/lib/midi';
+
+interface MidiControlsProps {
+    isConnected: boolean;
+    onConnect: () => void;
+    inputs: MidiInputInfo[];
+    inputId: string | null;
+    onInputChange: (id: string | null) => void;
+    isLearning: boolean;
+    onLearnToggle: () => void;
+}
+
+/**
+ * MIDI device selector and learn mode.
+ * MIDI access is only asked for when connecting, since the browser may prompt for it.
+ */
+export const MidiControls: React.FC<MidiControlsProps> = ({
+    isConnected,
+    onConnect,
+    inputs,
+    inputId,
+    onInputChange,
+    isLearning,
+    onLearnToggle,
+}) => {
+    if (!isConnected) {
+        return (
+            <button
+                onClick={onConnect}
+                className="p-1.5 rounded-sm transition-all flex items-center justify-center shadow-ui-element-raised active:shadow-ui-element-pressed text-gray-400 hover:text-white hover:bg-surface-light"
+                title="Connect a MIDI controller"
+            >
+                <RiKeyboardLine className="text-lg" />
+            </button>
+        );
+    }
+
+    return (
+        <div className="flex items-center gap-2">
+            <RiKeyboardLine className="text-lg text-gray-400" />
+            <select
+                value={inputId ?? ''}
+                onChange={(e) => onInputChange(e.target.value || null)}
+                className="h-7 max-w-36 bg-background-dark rounded-sm px-1 text-xs text-gray-300 shadow-ui-element-inset outline-none"
+                title="MIDI input"
+            >
+                <option value="">{inputs.length > 0 ? 'No input' : 'No devices'}</option>
+                {inputs.map(input => (
+                    <option key={input.id} value={input.id}>{input.name}</option>
+                ))}
+            </select>
+            <button
+                onClick={onLearnToggle}
+                className={`h-7 px-2 rounded-sm text-[11px] font-bold transition-all shadow-ui-element-raised active:shadow-ui-element-pressed ${isLearning ? 'text-black bg-primary' : 'text-gray-400 bg-surface-light hover:text-white'}`}
+                title={isLearning ? 'Finish learning controllers' : 'Learn MIDI controllers: click a control, then move a knob or fader'}
+            >
+                LEARN
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RiSave3Fill, RiFolderOpenFill } from 'react-icons/ri';
+import { AUDIO_FILE_PICKER_ACCEPT } from '@/lib/AudioLoader';
+import { ProjectAudio, PROJECT_FILE_EXTENSION } from '@/lib/project';
+
+interface ProjectControlsProps {
+    canSave: boolean;
+    onSave: (embedAudio: boolean) => Promise<void>;
+    onOpen: (projectFile: File, audioFile?: File) => Promise<ProjectAudio | null>;
+}
+
+/**
+ * Save and open buttons for project files.
+ * Saving asks whether to embed the audio. Opening a project that only references
+ * its audio asks for the audio file next.
+ */
+export const ProjectControls: React.FC<ProjectControlsProps> = ({ canSave, onSave, onOpen }) => {
+    const [isSaveMenuOpen, setIsSaveMenuOpen] = useState(false);
+    const [missingAudio, setMissingAudio] = useState<ProjectAudio | null>(null);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const audioInputRef = useRef<HTMLInputElement>(null);
+    const pendingProjectRef = useRef<File | null>(null);
+    const saveMenuRef = useRef<HTMLDivElement>(null);
+
+    // Close the save menu when clicking elsewhere
+    useEffect(() => {
+        if (!isSaveMenuOpen) return;
+
+        const controller = new AbortController();
+        window.addEventListener('mousedown', (e) => {
+            if (!saveMenuRef.current?.contains(e.target as Node)) {
+                setIsSaveMenuOpen(false);
+            }
+        }, { signal: controller.signal });
+
+        return () => controller.abort();
+    }, [isSaveMenuOpen]);
+
+    const handleSave = (embedAudio: boolean) => {
+        setIsSaveMenuOpen(false);
+        void onSave(embedAudio);
+    };
+
+    const handleProjectSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const input = e.currentTarget;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+
+        const audio = await onOpen(file);
+        if (audio) {
+            // The project only references its audio: ask for it
+            pendingProjectRef.current = file;
+            setMissingAudio(audio);
+            audioInputRef.current?.click();
+        }
+    };
+
+    const handleAudioSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const input = e.currentTarget;
+        const file = input.files?.[0];
+        input.value = '';
+        const projectFile = pendingProjectRef.current;
+        if (!file || !projectFile) return;
+
+        pendingProjectRef.current = null;
+        setMissingAudio(null);
+        await onOpen(projectFile, file);
+    };
+
+    return (
+        <div className="flex items-center gap-1">
+            <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                onChange={handleProjectSelected}
+                className="hidden"
+            />
+            <input
+                ref={audioInputRef}
+                type="file"
+                accept={AUDIO_FILE_PICKER_ACCEPT}
+                onChange={handleAudioSelected}
+                className="hidden"
+            />
+
+            <button
+                onClick={() => projectInputRef.current?.click()}
+                className="p-2 rounded-sm hover:bg-surface-light transition-colors shadow-ui-element-raised active:shadow-ui-element-pressed text-gray-400 hover:text-white"
+                title="Open project"
+            >
+                <RiFolderOpenFill className="text-lg" />
+            </button>
+
+            <div ref={saveMenuRef} className="relative">
+                <button
+                    onClick={() => setIsSaveMenuOpen(open => !open)}
+                    disabled={!canSave}
+                    className="p-2 rounded-sm hover:bg-surface-light transition-colors shadow-ui-element-raised active:shadow-ui-element-pressed text-gray-400 hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+                    title="Save project"
+                >
+                    <RiSave3Fill className="text-lg" />
+                </button>
+                {isSaveMenuOpen && (
+                    <div className="absolute left-0 top-full mt-1 z-20 bg-surface-dark rounded-sm shadow-ui-element-raised border border-black/50 py-1 whitespace-nowrap">
+                        <button
+                            onClick={() => handleSave(true)}
+                            className="block w-full text-left px-3 py-1.5 text-xs text-gray-300 hover:bg-surface-light hover:text-white"
+                        >
+                            Save with audio
+                        </button>
+                        <button
+                            onClick={() => handleSave(false)}
+                            className="block w-full text-left px-3 py-1.5 text-xs text-gray-300 hover:bg-surface-light hover:text-white"
+                        >
+                            Save without audio
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {missingAudio && (
+                <button
+                    onClick={() => audioInputRef.current?.click()}
+                    className="px-2 py-1 text-[11px] font-medium text-gray-400 hover:text-white whitespace-nowrap"
+                    title="This project doesn't include its audio"
+                >
+                    Locate {missingAudio.name}
+                </button>
+            )}
+        </div>
+    );
+};
@@ -34,3 +34,93 @@ export const EDIT_MODE_DELAY_MS = 100;
 
 /** Minimum release time for pad fade-out in ms */
 export const MIN_RELEASE_TIMEOUT_MS = 15;
+
+/** Default number of pad voices that can sound at once */
+export const DEFAULT_MAX_VOICES = 8;
+
+/** Number of choke groups a pad can be assigned to */
+export const CHOKE_GROUP_COUNT = 4;
+
+/** Number of mute groups a pad can be assigned to */
+export const MUTE_GROUP_COUNT = 4;
+
+/** Fade (in seconds) when a mute group cuts a pad off, just long enough to avoid a click */
+export const MUTE_GROUP_FADE_TIME = 0.005;
+
+/** Shortest gap between auto-chopped transients, in ms */
+export const AUTO_CHOP_MIN_GAP_MIN_MS = 10;
+
+/** Longest gap between auto-chopped transients, in ms */
+export const AUTO_CHOP_MIN_GAP_MAX_MS = 1000;
+
+/** Beats in a bar of the beat grid */
+export const BEATS_PER_BAR = 4;
+
+/** Beat-grid snapping divides each beat this many times (4 = 16th notes) */
+export const SNAP_GRID_SUBDIVISIONS = 4;
+
+/** Quiet time after the last change before the session is autosaved */
+export const AUTOSAVE_DELAY_MS = 1000;
+
+/** How far ahead the sequencer and metronome schedule on the audio clock, in seconds */
+export const SEQUENCER_LOOKAHEAD_SECONDS = 0.1;
+
+/** Sequencer tempo before a BPM has been detected */
+export const DEFAULT_SEQUENCER_BPM = 120;
+
+/** How often the sequencer and metronome wake up to schedule, in ms */
+export const SEQUENCER_TICK_MS = 25;
+
+/** Delay before the first step, so it isn't already late when it gets scheduled */
+export const SEQUENCER_START_DELAY_SECONDS = 0.05;
+
+/** Swing of a straight pattern, in percent */
+export const SWING_MIN = 50;
+
+/** Heaviest swing, in percent */
+export const SWING_MAX = 75;
+
+/** Default metronome volume (0-100) */
+export const METRONOME_DEFAULT_VOLUME = 50;
+
+/** Key that taps the tempo (a key no pad uses) */
+export const TAP_TEMPO_KEY = 'KeyH';
+
+/** Taps averaged for tap tempo */
+export const TAP_TEMPO_MAX_TAPS = 8;
+
+/** A pause this long between taps starts a new tap tempo, in ms */
+export const TAP_TEMPO_RESET_MS = 2000;
+
+/** Semitones a MIDI controller sweeps either side of 0 when it's learned to a key shift */
+export const MIDI_KEY_SHIFT_RANGE = 12;
+
+/** Where learned MIDI controllers are kept in the browser */
+export const MIDI_MAPPINGS_STORAGE_KEY = 'sample-chopper-midi-mappings';
+
+/** Lowest pad filter cutoff, in Hz */
+export const FILTER_MIN_HZ = 20;
+
+/** Highest pad filter cutoff, which leaves a lowpass filter open, in Hz */
+export const FILTER_OPEN_HZ = 20000;
+
+/** Lowpass and highpass resonance peak at full resonance, in dB */
+export const FILTER_MAX_RESONANCE_DB = 24;
+
+/** Octaves a full filter envelope moves the cutoff by */
+export const FILTER_ENVELOPE_OCTAVES = 6;
+
+/** Cutoff the softest hit closes an open filter to with velocity to filter at full, in Hz */
+export const VELOCITY_FILTER_MIN_HZ = 200;
+
+/** Quietest hit from clicking the bottom edge of a pad (the top edge plays at full velocity) */
+export const PAD_CLICK_MIN_VELOCITY = 0.1;
+
+/** Quietest pad gain, in dB */
+export const PAD_GAIN_MIN_DB = -36;
+
+/** Loudest pad gain, in dB */
+export const PAD_GAIN_MAX_DB = 12;
+
+/** Time constants an exponential envelope stage runs for (5 gets within 1% of its target) */
+export const ENVELOPE_TIME_CONSTANTS = 5;
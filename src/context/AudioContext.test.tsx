@@ -0,0 +1,125 @@
+// @vitest-environment happy-dom
+import { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioProvider, useAudio } from './AudioContext';
+import { MidiInputInfo, MidiMessage, MidiSource } from '../lib/midi';
+
+// The provider only needs an engine to call into, so every method it doesn't check is a no-op
+const engine = vi.hoisted(() => ({
+    playPad: vi.fn(async () => {}),
+    releaseLoop: vi.fn(),
+    stopPad: vi.fn(),
+    getCurrentTime: () => 1,
+    getAudioBuffer: () => null,
+    isPadLooping: () => false,
+    isPlaying: false,
+}));
+
+vi.mock('../lib/AudioEngine', () => ({
+    AudioEngine: class {
+        constructor() {
+            return new Proxy(engine, {
+                get: (target, key) => key in target ? target[key as keyof typeof target] : () => {}
+            });
+        }
+    }
+}));
+
+// Decoding pulls in ffmpeg, which can't load outside the browser
+vi.mock('../lib/AudioLoader', () => ({ AudioLoader: class {} }));
+
+vi.mock('../lib/sessionStore', () => ({
+    loadSession: async () => null,
+    clearSession: async () => {},
+    saveSessionAudio: async () => {},
+    saveSessionProject: async () => {},
+}));
+
+class FakeMidiSource implements MidiSource {
+    onMessage: ((message: MidiMessage) => void) | null = null;
+    onInputsChange: (() => void) | null = null;
+
+    getInputs(): MidiInputInfo[] {
+        return [{ id: 'fake', name: 'Fake keyboard' }];
+    }
+
+    selectInput() {}
+    dispose() {}
+
+    send(message: MidiMessage) {
+        act(() => this.onMessage?.(message));
+    }
+}
+
+describe('AudioProvider MIDI', () => {
+    let container: HTMLDivElement;
+    let root: Root;
+    let source: FakeMidiSource;
+    let audio: ReturnType<typeof useAudio>;
+
+    const Probe = () => {
+        audio = useAudio();
+        return null;
+    };
+
+    beforeEach(async () => {
+        (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+        vi.clearAllMocks();
+        localStorage.clear();
+
+        container = document.createElement('div');
+        root = createRoot(container);
+        source = new FakeMidiSource();
+        await act(async () => root.render(<AudioProvider midiSource={source}><Probe /></AudioProvider>));
+        await act(() => audio.connectMidi());
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+    });
+
+    it('gives an empty pad a cue point, then plays it on note-on and lets go on note-off', () => {
+        source.send({ type: 'noteon', channel: 1, note: 36, velocity: 127 });
+        expect(audio.pads[0].cuePoint).toBe(1);
+        expect(engine.playPad).not.toHaveBeenCalled();
+
+        source.send({ type: 'noteon', channel: 1, note: 36, velocity: 127 });
+        expect(engine.playPad).toHaveBeenCalledWith('pad-1', 1, expect.anything(), expect.anything());
+
+        source.send({ type: 'noteoff', channel: 1, note: 36 });
+        expect(engine.releaseLoop).toHaveBeenCalledWith('pad-1');
+    });
+
+    it('stops a held pad on note-off in gate mode', () => {
+        act(() => audio.setPlayMode('gate'));
+        source.send({ type: 'noteon', channel: 1, note: 37, velocity: 100 });
+        source.send({ type: 'noteon', channel: 1, note: 37, velocity: 100 });
+        source.send({ type: 'noteoff', channel: 1, note: 37 });
+
+        expect(engine.stopPad).toHaveBeenCalledWith('pad-2');
+    });
+
+    it('learns a controller and then moves its parameter', () => {
+        act(() => audio.setMidiLearning(true));
+        act(() => audio.armMidiLearn('attack'));
+        source.send({ type: 'cc', channel: 1, controller: 74, value: 0 });
+        expect(audio.midiMappings).toEqual({ '1:74': 'attack' });
+
+        act(() => audio.setMidiLearning(false));
+        source.send({ type: 'cc', channel: 1, controller: 74, value: 127 });
+        expect(audio.pads.find(pad => pad.id === audio.selectedPadId)?.params.attack).toBe(100);
+    });
+
+    it('leaves parameters alone once the controller is forgotten', () => {
+        act(() => audio.setMidiLearning(true));
+        act(() => audio.armMidiLearn('attack'));
+        source.send({ type: 'cc', channel: 1, controller: 74, value: 0 });
+        act(() => audio.forgetMidiControl('attack'));
+        act(() => audio.setMidiLearning(false));
+
+        const before = audio.pads[0].params.attack;
+        source.send({ type: 'cc', channel: 1, controller: 74, value: 127 });
+        expect(audio.pads[0].params.attack).toBe(before);
+    });
+});
@@ -1,7 +1,41 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode, useRef } from 'react';
-import { AudioEngine, PadParams as EnginePadParams } from '../lib/AudioEngine';
+import { AudioEngine, EnvelopeCurve, FilterType, LoopMode, PadParams as EnginePadParams } from '../lib/AudioEngine';
 import { AudioLoader } from '../lib/AudioLoader';
-import { mapAttackToSeconds, mapReleaseToSeconds } from '../lib/audioUtils';
+import { mapAttackToSeconds, mapCutoffToHz, mapDecayToSeconds, mapReleaseToSeconds, reverseBuffer } from '../lib/audioUtils';
+import { Onset, assignChopsToPads, pickStrongestOnsets } from '../lib/chopping';
+import { BeatGrid, GridUnit, TimeRange, gridLines, normalizeOffset, stepDuration } from '../lib/beatGrid';
+import { SnapMode, snapTime } from '../lib/snap';
+import {
+    Project, ProjectAudio, ProjectSettings,
+    createProject, extractProjectAudio, parseProject, projectFileName, serializeProject
+} from '../lib/project';
+import { downloadBlob } from '../lib/download';
+import { StoredSession, clearSession, loadSession, saveSessionAudio, saveSessionProject } from '../lib/sessionStore';
+import { History } from '../lib/History';
+import { WavFormat, WavMarker, chopFileName, encodeWav } from '../lib/wav';
+import { resample } from '../lib/offlineRender';
+import {
+    CountInBars, Pattern, PatternBars, QuantizeGrid, RecordMode, TimeSignature,
+    changeTimeSignature, clearRow, createPattern, normalizePattern, patternLength, placeHit, quantizePattern, setStep, setStepVelocity,
+    stepGate, stepOffset, stepVelocity, stepsPerBar, stepsPerBeat, swingDelay
+} from '../lib/pattern';
+import { Sequencer } from '../lib/Sequencer';
+import {
+    InstrumentRegion, INSTRUMENT_BASE_NOTE, INSTRUMENT_SAMPLE_FOLDER, buildDecentSampler, buildSfz
+} from '../lib/instrument';
+import { ZipEntry, createZip } from '../lib/zip';
+import { padRange } from '../lib/slice';
+import {
+    MidiInputInfo, MidiMapping, MidiMessage, MidiSource, MidiTarget,
+    controlKey, controlValue, forgetTarget, learnControl, loadMidiMappings, saveMidiMappings
+} from '../lib/midi';
+import { WebMidiSource } from '../lib/WebMidiSource';
+import { VelocityCurve, curveVelocity, velocityCutoff } from '../lib/velocity';
+import { PadMix } from '../lib/ChannelStrip';
+import {
+    AUTOSAVE_DELAY_MS, BEATS_PER_BAR, DEFAULT_SEQUENCER_BPM, FILTER_OPEN_HZ, METRONOME_DEFAULT_VOLUME, SEQUENCER_START_DELAY_SECONDS,
+    SNAP_GRID_SUBDIVISIONS, SWING_MAX, SWING_MIN
+} from '../config/constants';
 
 
 
@@ -11,10 +45,54 @@ import { mapAttackToSeconds, mapReleaseToSeconds } from '../lib/audioUtils';
 
 export interface PadParams {
     attack: number;
+    decay: number;
+    sustain: number;            // 0-100: level held after the decay, as a share of the peak
     release: number;
+    envelopeCurve: EnvelopeCurve;
     timeStretch: number;
     keyShift: number;
     isReverse: boolean;
+    loopMode: LoopMode;
+    filterType: FilterType;
+    filterCutoff: number;       // 0-100, mapped to Hz
+    filterResonance: number;    // 0-100
+    filterEnvelope: number;     // -100 to 100: how far the attack moves the cutoff, down or up
+    velocityCurve: VelocityCurve;
+    velocityToFilter: number;   // How far soft hits close the filter (0-100)
+    gain: number;               // Channel strip level in dB
+    pan: number;                // -100 (left) to 100 (right)
+    isMuted: boolean;
+    isSoloed: boolean;
+}
+
+export interface AutoChopOptions {
+    count: number;          // How many of the strongest transients to place
+    sensitivity: number;    // 0-1, higher finds quieter transients
+    minGap: number;         // Minimum time between chops in seconds
+}
+
+export interface GridChopOptions {
+    count: number;          // Slice length in units
+    unit: GridUnit;
+}
+
+export interface InstrumentExportOptions {
+    format: WavFormat;
+    renderSamples: boolean;         // Bake speed and pitch into the samples, otherwise copy the slices as they are
+    includeDecentSampler: boolean;  // Add a DecentSampler preset next to the SFZ file
+}
+
+/** A key the analysis considered, strength being how well it fits (-1 to 1) */
+export interface KeyCandidate {
+    key: string;
+    scale: string;
+    strength: number;
+}
+
+/** A tempo the analysis considered (the detected one and its half and double time) */
+export interface BpmCandidate {
+    bpm: number;
+    confidence: number;     // 0-1, the candidates' confidences add up to 1
 }
 
 export interface Pad {
@@ -22,16 +100,35 @@ export interface Pad {
     label: string;
     color: string;
     cuePoint: number | null;
+    endPoint: number | null; // End of the slice, null plays to the end of the file
+    loopStart: number | null; // Loop points, null falls back to the slice bounds
+    loopEnd: number | null;
     key: string;
+    chokeGroup: number | null; // Pads in the same group release each other, with their own release times
+    muteGroup: number | null;  // Pads in the same group cut each other off at once
     params: PadParams;
 }
 
 const DEFAULT_PARAMS: PadParams = {
     attack: 0,
+    decay: 0,
+    sustain: 100,
     release: 0,
+    envelopeCurve: 'linear',
     timeStretch: 100,
     keyShift: 0,
     isReverse: false,
+    loopMode: 'off',
+    filterType: 'lowpass',
+    filterCutoff: 100,
+    filterResonance: 0,
+    filterEnvelope: 0,
+    velocityCurve: 'linear',
+    velocityToFilter: 0,
+    gain: 0,
+    pan: 0,
+    isMuted: false,
+    isSoloed: false,
 };
 
 // ============================================================================
@@ -41,29 +138,29 @@ const DEFAULT_PARAMS: PadParams = {
 // Rainbow gradient across 20 pads
 const INITIAL_PADS: Pad[] = [
     // Row 1 - Reds to Oranges
-    { id: 'pad-1', label: 'Q', key: 'KeyQ', color: 'bg-red-600', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-2', label: 'W', key: 'KeyW', color: 'bg-red-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-3', label: 'E', key: 'KeyE', color: 'bg-orange-600', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-4', label: 'R', key: 'KeyR', color: 'bg-orange-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-5', label: 'T', key: 'KeyT', color: 'bg-amber-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-1', label: 'Q', key: 'KeyQ', color: 'bg-red-600', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-2', label: 'W', key: 'KeyW', color: 'bg-red-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-3', label: 'E', key: 'KeyE', color: 'bg-orange-600', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-4', label: 'R', key: 'KeyR', color: 'bg-orange-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-5', label: 'T', key: 'KeyT', color: 'bg-amber-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
     // Row 2 - Yellows to Greens
-    { id: 'pad-6', label: 'A', key: 'KeyA', color: 'bg-yellow-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-7', label: 'S', key: 'KeyS', color: 'bg-lime-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-8', label: 'D', key: 'KeyD', color: 'bg-green-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-9', label: 'F', key: 'KeyF', color: 'bg-emerald-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-10', label: 'G', key: 'KeyG', color: 'bg-teal-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-6', label: 'A', key: 'KeyA', color: 'bg-yellow-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-7', label: 'S', key: 'KeyS', color: 'bg-lime-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-8', label: 'D', key: 'KeyD', color: 'bg-green-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-9', label: 'F', key: 'KeyF', color: 'bg-emerald-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-10', label: 'G', key: 'KeyG', color: 'bg-teal-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
     // Row 3 - Teals to Blues
-    { id: 'pad-11', label: 'Z', key: 'KeyZ', color: 'bg-cyan-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-12', label: 'X', key: 'KeyX', color: 'bg-sky-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-13', label: 'C', key: 'KeyC', color: 'bg-blue-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-14', label: 'V', key: 'KeyV', color: 'bg-indigo-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-15', label: 'B', key: 'KeyB', color: 'bg-violet-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-11', label: 'Z', key: 'KeyZ', color: 'bg-cyan-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-12', label: 'X', key: 'KeyX', color: 'bg-sky-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-13', label: 'C', key: 'KeyC', color: 'bg-blue-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-14', label: 'V', key: 'KeyV', color: 'bg-indigo-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-15', label: 'B', key: 'KeyB', color: 'bg-violet-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
     // Row 4 - Purples to Pinks
-    { id: 'pad-16', label: 'Y', key: 'KeyY', color: 'bg-purple-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-17', label: 'U', key: 'KeyU', color: 'bg-fuchsia-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-18', label: 'I', key: 'KeyI', color: 'bg-pink-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-19', label: 'O', key: 'KeyO', color: 'bg-rose-500', cuePoint: null, params: { ...DEFAULT_PARAMS } },
-    { id: 'pad-20', label: 'P', key: 'KeyP', color: 'bg-red-400', cuePoint: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-16', label: 'Y', key: 'KeyY', color: 'bg-purple-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-17', label: 'U', key: 'KeyU', color: 'bg-fuchsia-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-18', label: 'I', key: 'KeyI', color: 'bg-pink-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-19', label: 'O', key: 'KeyO', color: 'bg-rose-500', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
+    { id: 'pad-20', label: 'P', key: 'KeyP', color: 'bg-red-400', cuePoint: null, endPoint: null, loopStart: null, loopEnd: null, chokeGroup: null, muteGroup: null, params: { ...DEFAULT_PARAMS } },
 ];
 
 const flatToSharpMap: { [key: string]: string } = {
@@ -74,6 +171,103 @@ const flatToSharpMap: { [key: string]: string } = {
     'Bb': 'A#',
 };
 
+/**
+ * Rebuilds the pads from a saved project.
+ * Anything the project doesn't have (pads or params added later) keeps its default.
+ */
+const restorePads = (saved: Pad[]): Pad[] => INITIAL_PADS.map(initial => {
+    const pad = saved.find(p => p.id === initial.id);
+    if (!pad) return initial;
+    return {
+        ...initial,
+        ...pad,
+        params: { ...DEFAULT_PARAMS, ...pad.params },
+    };
+});
+
+/**
+ * Places a file's cue markers on the pads. Markers labelled like a pad (as in our own
+ * exports) go to that pad, the rest fill the remaining pads in time order.
+ * Markers with a length become slices.
+ */
+const padsFromMarkers = (markers: WavMarker[], duration: number): Pad[] => {
+    const pads = INITIAL_PADS.map(p => ({ ...p, cuePoint: null, endPoint: null, loopStart: null, loopEnd: null }));
+    const place = (pad: Pad, marker: WavMarker) => {
+        const end = marker.length !== null ? Math.min(duration, marker.time + marker.length) : null;
+        pad.cuePoint = marker.time;
+        pad.endPoint = end !== null && end > marker.time ? end : null;
+    };
+
+    const unplaced: WavMarker[] = [];
+    markers.filter(m => m.time < duration).forEach(marker => {
+        const pad = pads.find(p => p.label === marker.label && p.cuePoint === null);
+        if (pad) {
+            place(pad, marker);
+        } else {
+            unplaced.push(marker);
+        }
+    });
+    pads.filter(p => p.cuePoint === null).forEach((pad, i) => {
+        if (unplaced[i]) place(pad, unplaced[i]);
+    });
+
+    return pads;
+};
+
+/**
+ * Drops loop points that no longer fall inside the pad's slice.
+ */
+const fitLoopToSlice = (pad: Pad): Pad => {
+    if (pad.cuePoint === null) return { ...pad, loopStart: null, loopEnd: null };
+    const sliceEnd = pad.endPoint ?? Infinity;
+    const inSlice = (time: number | null) => time === null || (time >= pad.cuePoint! && time <= sliceEnd);
+    return {
+        ...pad,
+        loopStart: inSlice(pad.loopStart) ? pad.loopStart : null,
+        loopEnd: inSlice(pad.loopEnd) ? pad.loopEnd : null,
+    };
+};
+
+/** A recording in progress */
+interface RecordingTake {
+    before: Pattern;                                        // Pattern when recording started, for undo
+    held: Map<string, { step: number; time: number }>;      // Pads held down: the step they went to and when
+    replaced: Set<string>;                                  // Pads whose rows were cleared (replace mode)
+    skipped: Set<string>;                                   // "padId:index" hits heard live that the sequencer shouldn't replay
+}
+
+/**
+ * Maps a pad's UI params to what the engine plays.
+ * The velocity goes through the pad's velocity curve to its level, and moves the filter cutoff as played,
+ * so a fixed curve still leaves Vel > Filter working.
+ * @param velocity How hard the pad was hit (0-1); exports render at full velocity
+ */
+const toEngineParams = (pad: Pad, velocity: number = 1): EnginePadParams => {
+    const level = curveVelocity(velocity, pad.params.velocityCurve);
+    return {
+        speed: pad.params.timeStretch / 100,
+        pitch: pad.params.keyShift,
+        reverse: pad.params.isReverse,
+        attack: mapAttackToSeconds(pad.params.attack),
+        decay: mapDecayToSeconds(pad.params.decay),
+        sustain: pad.params.sustain / 100,
+        release: mapReleaseToSeconds(pad.params.release),
+        envelopeCurve: pad.params.envelopeCurve,
+        volume: level,
+        filterType: pad.params.filterType,
+        cutoff: velocityCutoff(mapCutoffToHz(pad.params.filterCutoff), velocity, pad.params.velocityToFilter, pad.params.filterType),
+        resonance: pad.params.filterResonance / 100,
+        filterEnvelope: pad.params.filterEnvelope / 100
+    };
+};
+
+const toPadMix = (pad: Pad): PadMix => ({
+    gain: pad.params.gain,
+    pan: pad.params.pan / 100,
+    mute: pad.params.isMuted,
+    solo: pad.params.isSoloed
+});
+
 interface AudioState {
     // Engine State
     // currentTime removed to avoid re-renders
@@ -90,9 +284,20 @@ interface AudioState {
     detectedKey: string | null;
     currentBpm: number | null;
     isAnalyzing: boolean;
+    isChopping: boolean;
+    isExporting: boolean;
     fileLoadStatus: string | null;
     keyMode: 'sharp' | 'flat';
     detectedKeyIndex: number | null;
+    keyCandidates: KeyCandidate[];  // Best first
+    bpmCandidates: BpmCandidate[];  // Best first
+
+    // Beat Grid (null until the BPM is known)
+    beatGrid: BeatGrid | null;
+    detectedBeats: number[];  // Beat times found by the beat tracker
+    detectedTransients: number[];
+    snapMode: SnapMode;
+    chopRegion: TimeRange | null;
 
     // Error State
     error: string | null;
@@ -107,6 +312,9 @@ interface AudioContextType extends AudioState {
     globalKeyShift: number;
     setGlobalKeyShift: (shift: number) => void;
     setBpm: (bpm: number) => void;
+    scaleBpm: (factor: number) => void;
+    chooseKeyCandidate: (candidate: KeyCandidate) => void;
+    chooseBpmCandidate: (candidate: BpmCandidate) => void;
     keyMode: 'sharp' | 'flat';
     detectedKeyIndex: number | null;
 
@@ -116,23 +324,102 @@ interface AudioContextType extends AudioState {
     seek: (time: number) => void;
 
     // Pad Actions
-    triggerPad: (id: string) => void;
+    triggerPad: (id: string, velocity?: number) => void;   // velocity 0-1, as played on a MIDI keyboard
     stopPad: (id: string) => void;
     setPadCuePoint: (id: string, time: number) => void;
+    setPadEndPoint: (id: string, time: number | null) => void;
+    setPadLoopPoints: (id: string, start: number | null, end: number | null) => void;
+    releasePadLoop: (id: string) => void;
     clearPad: (id: string) => void;
     selectPad: (id: string) => void;
+    setPadChokeGroup: (id: string, group: number | null) => void;
+    setPadMuteGroup: (id: string, group: number | null) => void;
+    autoChop: (options: AutoChopOptions) => Promise<void>;
+    gridChop: (options: GridChopOptions) => void;
+    setDownbeatOffset: (offset: number) => void;
+    setChopRegion: (region: TimeRange | null) => void;
+
+    // Step Sequencer (plays the pattern at the current BPM; starting and stopping the transport starts and stops it)
+    pattern: Pattern;
+    isSequencerPlaying: boolean;
+    sequencer: Sequencer;
+    startSequencer: () => Promise<void>;
+    stopSequencer: () => void;
+    setPatternStep: (padId: string, step: number, velocity: number) => void;
+    setPatternBars: (bars: PatternBars) => void;
+    setTimeSignature: (timeSignature: TimeSignature) => void;
+    clearPattern: () => void;
+    setSwing: (swing: number) => void;
+    applyQuantize: (quantize: QuantizeGrid) => void;
+
+    // Recording (played pads go into the pattern; starting from a stop counts in first)
+    isRecording: boolean;
+    isCountingIn: boolean;
+    recordMode: RecordMode;
+    inputQuantize: QuantizeGrid;
+    countInBars: CountInBars;
+    startRecording: () => Promise<void>;
+    stopRecording: () => void;
+    setRecordMode: (mode: RecordMode) => void;
+    setInputQuantize: (quantize: QuantizeGrid) => void;
+    setCountInBars: (bars: CountInBars) => void;
+
+    // Metronome (clicks with the transport on the beat grid, and with the sequencer's beats)
+    isMetronomeOn: boolean;
+    metronomeVolume: number;
+    setMetronomeOn: (on: boolean) => void;
+    setMetronomeVolume: (volume: number) => void;
+
+    // MIDI (notes from INSTRUMENT_BASE_NOTE up play the pads, learned controllers move the controls)
+    isMidiConnected: boolean;
+    midiInputs: MidiInputInfo[];
+    midiInputId: string | null;
+    isMidiLearning: boolean;
+    midiLearnTarget: MidiTarget | null;     // Control waiting for a controller to be moved
+    midiMappings: MidiMapping;
+    connectMidi: () => Promise<void>;
+    selectMidiInput: (id: string | null) => void;
+    setMidiLearning: (learning: boolean) => void;
+    armMidiLearn: (target: MidiTarget) => void;
+    forgetMidiControl: (target: MidiTarget) => void;
+
+    // Snapping
+    setSnapMode: (mode: SnapMode) => void;
+    snap: (time: number) => number;
 
     // Param Updates (for selected pad)
     updateSelectedPadParams: (params: Partial<PadParams>) => void;
 
     // File Loading
     loadFile: (file: File) => Promise<void>;
+
+    // Projects
+    saveProject: (embedAudio: boolean) => Promise<void>;
+    openProject: (projectFile: File, audioFile?: File) => Promise<ProjectAudio | null>;
+
+    // Export (renders each pad's slice with its processing to a WAV file)
+    exportPads: (ids: string[], format: WavFormat) => Promise<void>;
+    exportInstrument: (options: InstrumentExportOptions) => Promise<void>;
+    exportMarkedWav: (format: WavFormat) => Promise<void>;
+
+    // Session Recovery (the autosaved session from last time, until restored or dismissed)
+    storedSession: StoredSession | null;
+    restoreSession: () => Promise<void>;
+    dismissSession: () => void;
+
+    // Undo History (covers pad edits and global settings)
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string | null;
+    redoLabel: string | null;
     dismissError: () => void;
 }
 
 // Worker Message Types
 interface WorkerMessage {
-    type: 'READY' | 'RESULT' | 'ERROR';
+    type: 'READY' | 'RESULT' | 'ONSETS' | 'ERROR';
     payload: any;
 }
 
@@ -197,8 +484,9 @@ const AudioTimeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
 /**
  * Main audio provider component.
  * Manages global audio state, playback logic, and analysis worker.
+ * MIDI comes from Web MIDI once connected, unless a `midiSource` is given (like a fake one in tests).
  */
-export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+export const AudioProvider: React.FC<{ children: ReactNode; midiSource?: MidiSource }> = ({ children, midiSource }) => {
     const [pads, setPads] = useState<Pad[]>(INITIAL_PADS);
     const [selectedPadId, setSelectedPadId] = useState<string | null>('pad-1');
 
@@ -214,13 +502,43 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     const [detectedKey, setDetectedKey] = useState<string | null>(null);
     const [currentBpm, setCurrentBpm] = useState<number | null>(null);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [isChopping, setIsChopping] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [pattern, setPatternState] = useState<Pattern>(createPattern);
+    const [isSequencerPlaying, setIsSequencerPlaying] = useState(false);
+    const [sequencer] = useState(() => new Sequencer(() => audioEngine.getContextTime()));
+    const [isRecording, setIsRecording] = useState(false);
+    const [isCountingIn, setIsCountingIn] = useState(false);
+    const [recordMode, setRecordMode] = useState<RecordMode>('overdub');
+    const [inputQuantize, setInputQuantize] = useState<QuantizeGrid>(1);
+    const [countInBars, setCountInBars] = useState<CountInBars>(1);
+    const [isMetronomeOn, setMetronomeOn] = useState(false);
+    const [metronomeVolume, setMetronomeVolume] = useState(METRONOME_DEFAULT_VOLUME);
     const [fileLoadStatus, setFileLoadStatus] = useState<string | null>(null);
     const [keyMode, setKeyMode] = useState<'sharp' | 'flat'>('sharp');
     const [detectedKeyIndex, setDetectedKeyIndex] = useState<number | null>(null);
+    const [keyCandidates, setKeyCandidates] = useState<KeyCandidate[]>([]);
+    const [bpmCandidates, setBpmCandidates] = useState<BpmCandidate[]>([]);
+    const [downbeatOffset, setDownbeatOffsetState] = useState(0);
+    const [detectedBeats, setDetectedBeats] = useState<number[]>([]);
+    const [detectedTransients, setDetectedTransients] = useState<number[]>([]);
+    const [snapMode, setSnapModeState] = useState<SnapMode>('off');
+    const [chopRegion, setChopRegion] = useState<TimeRange | null>(null);
+
+    const beatGrid = useMemo<BeatGrid | null>(() => (
+        detectedBpm ? { bpm: detectedBpm, offset: downbeatOffset, beatsPerBar: BEATS_PER_BAR } : null
+    ), [detectedBpm, downbeatOffset]);
 
     // Worker Ref
     const workerRef = useRef<Worker | null>(null);
 
+    // The audio file currently loaded, kept for saving projects
+    const sourceFileRef = useRef<File | null>(null);
+    const [storedSession, setStoredSession] = useState<StoredSession | null>(null);
+
+    // Cue points placed by the last auto-chop, so re-running it replaces them
+    const autoChopsRef = useRef<Map<string, number>>(new Map());
+
     // Load audio file on mount
     useEffect(() => {
         const engine = audioEngine;
@@ -238,10 +556,17 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         };
     }, [audioEngine]);
 
+    // Offer the last session back on startup
+    useEffect(() => {
+        loadSession()
+            .then(setStoredSession)
+            .catch(error => console.error('[Session] Failed to read the last session:', error));
+    }, []);
+
     // Global Settings
-    const [playMode, setPlayMode] = useState<'gate' | 'trigger'>('trigger');
-    const [masterVolume, setMasterVolume] = useState(75);
-    const [globalKeyShift, setGlobalKeyShift] = useState(0);
+    const [playMode, setPlayModeState] = useState<'gate' | 'trigger'>('trigger');
+    const [masterVolume, setMasterVolumeState] = useState(75);
+    const [globalKeyShift, setGlobalKeyShiftState] = useState(0);
 
     // Update Engine Global Settings
     useEffect(() => {
@@ -252,7 +577,134 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         audioEngine.setGlobalPitchOffset(globalKeyShift);
     }, [globalKeyShift, audioEngine]);
 
-    const setBpm = (bpm: number) => {
+    // Each pad plays through its own channel strip
+    useEffect(() => {
+        audioEngine.setPadMixes(Object.fromEntries(pads.map(pad => [pad.id, toPadMix(pad)])));
+    }, [pads, audioEngine]);
+
+    // ========================================================================
+    // Undo History
+    // ========================================================================
+
+    const [history] = useState(() => new History());
+    const [historyState, setHistoryState] = useState({
+        canUndo: false,
+        canRedo: false,
+        undoLabel: null as string | null,
+        redoLabel: null as string | null,
+    });
+
+    useEffect(() => {
+        history.onChange = () => setHistoryState({
+            canUndo: history.canUndo,
+            canRedo: history.canRedo,
+            undoLabel: history.undoLabel,
+            redoLabel: history.redoLabel,
+        });
+        return () => {
+            history.onChange = null;
+        };
+    }, [history]);
+
+    // Latest pads, so edits made in quick succession build on each other
+    const padsRef = useRef(pads);
+
+    const applyPads = (next: Pad[]) => {
+        padsRef.current = next;
+        setPads(next);
+    };
+
+    /**
+     * Applies an undoable change to the pads. Edits that leave every pad untouched are ignored.
+     */
+    const editPads = (label: string, update: (prev: Pad[]) => Pad[], coalesceKey?: string) => {
+        const before = padsRef.current;
+        const after = update(before);
+        if (after.length === before.length && after.every((p, i) => p === before[i])) return;
+
+        applyPads(after);
+        history.push({
+            label,
+            coalesceKey,
+            undo: () => applyPads(before),
+            redo: () => applyPads(after),
+        });
+    };
+
+    /**
+     * Applies an undoable change to a global setting.
+     */
+    const editSetting = <T,>(label: string, before: T, after: T, apply: (value: T) => void, coalesceKey?: string) => {
+        if (Object.is(before, after)) return;
+
+        apply(after);
+        history.push({
+            label,
+            coalesceKey,
+            undo: () => apply(before),
+            redo: () => apply(after),
+        });
+    };
+
+    const undo = () => history.undo();
+    const redo = () => history.redo();
+
+    // Controller the MIDI sweep in progress comes from
+    const midiSweepRef = useRef<string | null>(null);
+
+    // Every drag (knob, slider, flag, step) is one gesture from pointer down to pointer up,
+    // so its edits coalesce into one undo step however long it takes
+    useEffect(() => {
+        const controller = new AbortController();
+        const { signal } = controller;
+
+        window.addEventListener('pointerdown', () => {
+            midiSweepRef.current = null;
+            history.beginGesture();
+        }, { capture: true, signal });
+        const end = () => history.endGesture();
+        window.addEventListener('pointerup', end, { capture: true, signal });
+        window.addEventListener('pointercancel', end, { capture: true, signal });
+
+        // Typing ends a MIDI sweep, so key presses don't merge into it
+        window.addEventListener('keydown', () => {
+            if (midiSweepRef.current === null) return;
+            midiSweepRef.current = null;
+            history.endGesture();
+        }, { capture: true, signal });
+
+        return () => controller.abort();
+    }, [history]);
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), Ctrl+Y also redoes
+    useEffect(() => {
+        const controller = new AbortController();
+
+        window.addEventListener('keydown', (e) => {
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            if (e.code === 'KeyZ') {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    history.redo();
+                } else {
+                    history.undo();
+                }
+            } else if (e.code === 'KeyY') {
+                e.preventDefault();
+                history.redo();
+            }
+        }, { signal: controller.signal });
+
+        return () => controller.abort();
+    }, [history]);
+
+    // ========================================================================
+    // Global Settings Actions
+    // ========================================================================
+
+    const applyBpm = (bpm: number) => {
         setCurrentBpm(bpm);
         if (detectedBpm) {
             const speed = bpm / detectedBpm;
@@ -260,12 +712,77 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         }
     };
 
+    const setBpm = (bpm: number) => {
+        if (currentBpm === null) {
+            applyBpm(bpm);
+            return;
+        }
+        editSetting('Change BPM', currentBpm, bpm, applyBpm, 'bpm');
+    };
+
+    /**
+     * Fixes a detection that locked onto half or double time by scaling the detected and current BPM together.
+     * The track keeps its speed; the beat grid, the metronome and the sequencer follow the corrected tempo.
+     */
+    const scaleBpm = (factor: number) => {
+        if (!detectedBpm || currentBpm === null) return;
+
+        const before = { detected: detectedBpm, current: currentBpm };
+        const after = { detected: detectedBpm * factor, current: currentBpm * factor };
+        editSetting(factor > 1 ? 'Double BPM' : 'Halve BPM', before, after, ({ detected, current }) => {
+            setDetectedBpm(detected);
+            setCurrentBpm(current);
+            audioEngine.setGlobalSpeed(current / detected);
+        });
+    };
+
+    // Picking another tempo candidate is a half- or double-time fix too
+    const chooseBpmCandidate = (candidate: BpmCandidate) => {
+        if (!detectedBpm || candidate.bpm === detectedBpm) return;
+        scaleBpm(candidate.bpm / detectedBpm);
+    };
+
+    const applyDetectedKey = ({ key, scale }: { key: string; scale: string }) => {
+        setKeyMode(key.includes('b') ? 'flat' : 'sharp');
+
+        const normalizedKey = flatToSharpMap[key] || key;
+        const keyIndex = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].indexOf(normalizedKey);
+        setDetectedKeyIndex(keyIndex !== -1 ? keyIndex : null);
+        setDetectedKey(`${key} ${scale}`);
+    };
+
+    const chooseKeyCandidate = (candidate: KeyCandidate) => {
+        if (!detectedKey) return;
+        const [key, scale] = detectedKey.split(' ');
+        if (key === candidate.key && scale === candidate.scale) return;
+        editSetting('Change detected key', { key, scale }, { key: candidate.key, scale: candidate.scale }, applyDetectedKey);
+    };
+
+    const setPlayMode = (mode: 'gate' | 'trigger') => {
+        editSetting('Change play mode', playMode, mode, setPlayModeState);
+    };
+
+    const setMasterVolume = (volume: number) => {
+        editSetting('Change volume', masterVolume, volume, setMasterVolumeState, 'masterVolume');
+    };
+
+    const setGlobalKeyShift = (shift: number) => {
+        editSetting('Change key', globalKeyShift, shift, setGlobalKeyShiftState, 'globalKeyShift');
+    };
+
+    const setSnapMode = (mode: SnapMode) => {
+        editSetting('Change snap mode', snapMode, mode, setSnapModeState);
+    };
+
+    // The pattern plays along with the transport
     const play = async () => {
         await audioEngine.play();
         setIsPlaying(audioEngine.isPlaying);
+        await startSequencer();
     };
 
     const pause = () => {
+        stopSequencer();
         audioEngine.pause();
         setIsPlaying(audioEngine.isPlaying);
     };
@@ -275,39 +792,286 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         // We don't manually set currentTime here, the loop in AudioTimeProvider will pick it up
     };
 
-    const triggerPad = async (id: string) => {
+    /**
+     * Plays a pad. In trigger mode, hitting a pad that is still looping (forward or ping-pong)
+     * stops it instead, as letting go of it doesn't end the loop.
+     */
+    const triggerPad = async (id: string, velocity: number = 1) => {
         const pad = pads.find(p => p.id === id);
         if (pad && pad.cuePoint !== null) {
-            setSelectedPadId(id);
+            if (playMode === 'trigger' && audioEngine.isPadLooping(id)) {
+                audioEngine.stopPad(id);
+                return;
+            }
 
-            const engineParams: EnginePadParams = {
-                speed: pad.params.timeStretch / 100,
-                pitch: pad.params.keyShift,
-                reverse: pad.params.isReverse,
-                attack: mapAttackToSeconds(pad.params.attack),
-                release: mapReleaseToSeconds(pad.params.release),
-                volume: 1.0
-            };
+            recordPadHit(id, velocity);
+            setSelectedPadId(id);
 
-            await audioEngine.playPad(id, pad.cuePoint, engineParams);
+            await audioEngine.playPad(id, pad.cuePoint, toEngineParams(pad, velocity), {
+                chokeGroup: pad.chokeGroup,
+                muteGroup: pad.muteGroup,
+                endPoint: pad.endPoint,
+                loop: {
+                    mode: pad.params.loopMode,
+                    start: pad.loopStart ?? pad.cuePoint,
+                    end: pad.loopEnd ?? pad.endPoint ?? audioEngine.getDuration()
+                }
+            });
             setIsPlaying(audioEngine.isPlaying);
         }
     };
 
     const stopPad = (id: string) => {
-        audioEngine.stopPad();
+        audioEngine.stopPad(id);
+    };
+
+    // Called whenever a held pad is let go, so it also ends the pad's recorded gate
+    const releasePadLoop = (id: string) => {
+        audioEngine.releaseLoop(id);
+        recordPadRelease(id);
+    };
+
+    // ========================================================================
+    // Step Sequencer
+    // ========================================================================
+
+    // Tempo and length are read per step, so changes apply while playing
+    useEffect(() => {
+        sequencer.setTempo(currentBpm ?? detectedBpm ?? DEFAULT_SEQUENCER_BPM);
+        sequencer.setLength(pattern.length);
+    }, [sequencer, currentBpm, detectedBpm, pattern.length]);
+
+    // Sequenced hits play their slice once: loops would never be released.
+    // In gate mode, recorded hits are released after as long as they were held.
+    useEffect(() => {
+        sequencer.onStep = (step, time, index) => {
+            const take = takeRef.current;
+            // A take always clicks, like its count-in, so there's a beat to play along to.
+            // With the metronome on, the transport clicks instead while it plays along.
+            const shouldClick = isMetronomeOn ? !audioEngine.isGlobalPlaying : take !== null;
+            if (shouldClick && step % stepsPerBeat(pattern.timeSignature) === 0) {
+                audioEngine.playClick(time, step % stepsPerBar(pattern.timeSignature) === 0);
+            }
+
+            pads.forEach(pad => {
+                const velocity = stepVelocity(pattern, pad.id, step);
+                if (velocity <= 0 || pad.cuePoint === null) return;
+                if (take?.skipped.delete(`${pad.id}:${index}`)) return;
+
+                const hitTime = time + (swingDelay(step, pattern.swing) + stepOffset(pattern, pad.id, step)) * sequencer.stepLength;
+                const gate = stepGate(pattern, pad.id, step);
+                void audioEngine.playPad(pad.id, pad.cuePoint, toEngineParams(pad, velocity), {
+                    chokeGroup: pad.chokeGroup,
+                    muteGroup: pad.muteGroup,
+                    endPoint: pad.endPoint,
+                    when: hitTime,
+                    sequenced: true,
+                    releaseAt: playMode === 'gate' && gate > 0 ? hitTime + gate * sequencer.stepLength : undefined
+                });
+            });
+        };
+    }, [sequencer, audioEngine, pads, pattern, playMode, isMetronomeOn]);
+
+    // Stop the clock when the provider goes away
+    useEffect(() => () => sequencer.stop(), [sequencer]);
+
+    // The transport clicks on the track's own beats, so it needs the beat grid
+    useEffect(() => {
+        audioEngine.setMetronome(isMetronomeOn ? beatGrid : null);
+    }, [audioEngine, isMetronomeOn, beatGrid]);
+
+    useEffect(() => () => audioEngine.setMetronome(null), [audioEngine]);
+
+    useEffect(() => {
+        audioEngine.setMetronomeVolume(metronomeVolume / 100);
+    }, [audioEngine, metronomeVolume]);
+
+    const startSequencer = async () => {
+        if (sequencer.isRunning || duration <= 0) return;
+        await audioEngine.resume();
+        sequencer.start();
+        setIsSequencerPlaying(true);
+    };
+
+    const stopSequencer = () => {
+        stopRecording();
+        sequencer.stop();
+        setIsSequencerPlaying(false);
+    };
+
+    const setPatternStep = (padId: string, step: number, velocity: number) => {
+        editSetting('Edit pattern', pattern, setStepVelocity(pattern, padId, step, velocity), setPatternState, `step-${padId}-${step}`);
+    };
+
+    const setPatternBars = (bars: PatternBars) => {
+        const length = patternLength(bars, pattern.timeSignature);
+        editSetting('Change pattern length', pattern, { ...pattern, length }, setPatternState);
+    };
+
+    // The pattern keeps its number of bars, so it never wraps mid-bar
+    const setTimeSignature = (timeSignature: TimeSignature) => {
+        editSetting('Change time signature', pattern, changeTimeSignature(pattern, timeSignature), setPatternState);
+    };
+
+    const clearPattern = () => {
+        editSetting('Clear pattern', pattern, { ...createPattern(), length: pattern.length, timeSignature: pattern.timeSignature, swing: pattern.swing }, setPatternState);
+    };
+
+    const setSwing = (swing: number) => {
+        const clamped = Math.max(SWING_MIN, Math.min(SWING_MAX, swing));
+        editSetting('Change swing', pattern, { ...pattern, swing: clamped }, setPatternState, 'swing');
+    };
+
+    const applyQuantize = (quantize: QuantizeGrid) => {
+        editSetting('Quantize pattern', pattern, quantizePattern(pattern, quantize), setPatternState);
+    };
+
+    // ========================================================================
+    // Recording
+    // ========================================================================
+
+    // Hits are written to the pattern as they're played; the whole take is one undo step
+    const patternRef = useRef(pattern);
+    const takeRef = useRef<RecordingTake | null>(null);
+    const countInTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        patternRef.current = pattern;
+    }, [pattern]);
+
+    const applyRecordedPattern = (next: Pattern) => {
+        patternRef.current = next;
+        setPatternState(next);
+    };
+
+    const startRecording = async () => {
+        if (takeRef.current || duration <= 0) return;
+        await audioEngine.resume();
+
+        takeRef.current = { before: patternRef.current, held: new Map(), replaced: new Set(), skipped: new Set() };
+        setIsRecording(true);
+
+        // Punch in on a running pattern
+        if (sequencer.isRunning) return;
+
+        // Otherwise click the count-in bars, then start the pattern
+        const { timeSignature } = patternRef.current;
+        const beatLength = sequencer.stepLength * stepsPerBeat(timeSignature);
+        const countInBeats = countInBars * timeSignature.beats;
+        const countInStart = audioEngine.getContextTime() + SEQUENCER_START_DELAY_SECONDS;
+        for (let beat = 0; beat < countInBeats; beat++) {
+            audioEngine.playClick(countInStart + beat * beatLength, beat % timeSignature.beats === 0);
+        }
+        const patternStart = countInStart + countInBeats * beatLength;
+        sequencer.start(patternStart);
+        setIsSequencerPlaying(true);
+        if (countInBeats === 0) return;
+
+        setIsCountingIn(true);
+        countInTimerRef.current = setTimeout(() => {
+            countInTimerRef.current = null;
+            setIsCountingIn(false);
+        }, (patternStart - audioEngine.getContextTime()) * 1000);
+    };
+
+    const stopRecording = () => {
+        const take = takeRef.current;
+        if (!take) return;
+
+        const now = audioEngine.getContextTime();
+        take.held.forEach((_, padId) => finishHeldHit(take, padId, now));
+        takeRef.current = null;
+
+        if (countInTimerRef.current !== null) {
+            clearTimeout(countInTimerRef.current);
+            countInTimerRef.current = null;
+        }
+        setIsCountingIn(false);
+        setIsRecording(false);
+        editSetting('Record pattern', take.before, patternRef.current, setPatternState);
+    };
+
+    // Puts a played pad on the step it was played at, timed on the audio clock
+    const recordPadHit = (padId: string, velocity: number) => {
+        const take = takeRef.current;
+        if (!take || !sequencer.isRunning) return;
+
+        const now = audioEngine.getContextTime();
+        const position = sequencer.positionAt(now);
+        // Hits early in the count-in don't belong to the pattern
+        if (position.step < -0.5) return;
+
+        let next = patternRef.current;
+        if (recordMode === 'replace' && !take.replaced.has(padId)) {
+            next = clearRow(next, padId);
+            take.replaced.add(padId);
+        }
+        const placement = placeHit(next, position.step, inputQuantize);
+        next = setStep(next, padId, placement.step, velocity, placement.offset, 0);
+
+        // A hit moved ahead to a step that hasn't been scheduled yet was just heard, so that step skips it once
+        let shift = placement.step - position.step;
+        shift -= Math.round(shift / next.length) * next.length;
+        const index = Math.round(position.index + shift);
+        if (index >= sequencer.scheduledSteps) {
+            take.skipped.add(`${padId}:${index}`);
+        }
+
+        take.held.set(padId, { step: placement.step, time: now });
+        applyRecordedPattern(next);
+    };
+
+    const recordPadRelease = (padId: string) => {
+        const take = takeRef.current;
+        if (take) {
+            finishHeldHit(take, padId, audioEngine.getContextTime());
+        }
+    };
+
+    // Stores how long a recorded hit was held, in steps
+    const finishHeldHit = (take: RecordingTake, padId: string, now: number) => {
+        const held = take.held.get(padId);
+        if (!held) return;
+        take.held.delete(padId);
+
+        const current = patternRef.current;
+        const velocity = stepVelocity(current, padId, held.step);
+        if (velocity <= 0) return;
+        const gate = (now - held.time) / sequencer.stepLength;
+        applyRecordedPattern(setStep(current, padId, held.step, velocity, stepOffset(current, padId, held.step), gate));
     };
 
     const setPadCuePoint = (id: string, time: number) => {
-        setPads(prev => prev.map(p =>
-            p.id === id ? { ...p, cuePoint: time } : p
-        ));
+        editPads('Move cue point', prev => prev.map(p => {
+            if (p.id !== id) return p;
+            // An end point before the new start no longer describes a slice
+            const endPoint = p.endPoint !== null && p.endPoint <= time ? null : p.endPoint;
+            return fitLoopToSlice({ ...p, cuePoint: time, endPoint });
+        }), `cue-${id}`);
         setSelectedPadId(id);
     };
 
+    const setPadEndPoint = (id: string, time: number | null) => {
+        editPads(time === null ? 'Remove end point' : 'Move end point', prev => prev.map(p => {
+            if (p.id !== id || p.cuePoint === null) return p;
+            if (time !== null && time <= p.cuePoint) return p;
+            return fitLoopToSlice({ ...p, endPoint: time });
+        }), `end-${id}`);
+    };
+
+    const setPadLoopPoints = (id: string, start: number | null, end: number | null) => {
+        editPads('Move loop points', prev => prev.map(p => {
+            if (p.id !== id || p.cuePoint === null) return p;
+            if (start !== null && end !== null && end <= start) return p;
+            return fitLoopToSlice({ ...p, loopStart: start, loopEnd: end });
+        }), `loop-${id}`);
+    };
+
     const clearPad = (id: string) => {
-        setPads(prev => prev.map(p =>
-            p.id === id ? { ...p, cuePoint: null } : p
+        editPads('Clear pad', prev => prev.map(p =>
+            p.id === id && p.cuePoint !== null
+                ? { ...p, cuePoint: null, endPoint: null, loopStart: null, loopEnd: null }
+                : p
         ));
     };
 
@@ -315,18 +1079,157 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         setSelectedPadId(id);
     };
 
+    const setPadChokeGroup = (id: string, group: number | null) => {
+        editPads('Change choke group', prev => prev.map(p =>
+            p.id === id && p.chokeGroup !== group ? { ...p, chokeGroup: group } : p
+        ));
+    };
+
+    const setPadMuteGroup = (id: string, group: number | null) => {
+        editPads('Change mute group', prev => prev.map(p =>
+            p.id === id && p.muteGroup !== group ? { ...p, muteGroup: group } : p
+        ));
+    };
+
     const updateSelectedPadParams = (updates: Partial<PadParams>) => {
         if (!selectedPadId) return;
-        setPads(prev => prev.map(p =>
+        editPads('Change pad settings', prev => prev.map(p =>
             p.id === selectedPadId
                 ? { ...p, params: { ...p.params, ...updates } }
                 : p
-        ));
+        ), `params-${selectedPadId}-${Object.keys(updates).join(',')}`);
+    };
+
+    // ========================================================================
+    // MIDI
+    // ========================================================================
+
+    const [midi, setMidi] = useState<MidiSource | null>(null);
+    const [midiInputs, setMidiInputs] = useState<MidiInputInfo[]>([]);
+    const [midiInputId, setMidiInputId] = useState<string | null>(null);
+    const [isMidiLearning, setIsMidiLearning] = useState(false);
+    const [midiLearnTarget, setMidiLearnTarget] = useState<MidiTarget | null>(null);
+    const [midiMappings, setMidiMappings] = useState<MidiMapping>(loadMidiMappings);
+
+    // Pads held down on the MIDI keyboard, so note-offs only release what note-ons started
+    const midiHeldPadsRef = useRef<Set<string>>(new Set());
+
+    const connectMidi = async () => {
+        if (midi) return;
+        try {
+            const source = midiSource ?? await WebMidiSource.request();
+            const inputs = source.getInputs();
+            source.onInputsChange = () => setMidiInputs(source.getInputs());
+
+            // Start with the first device so a single controller works right away
+            const first = inputs[0]?.id ?? null;
+            source.selectInput(first);
+            setMidiInputs(inputs);
+            setMidiInputId(first);
+            setMidi(source);
+        } catch (error) {
+            console.error('[MIDI] Failed to connect:', error);
+            setError(error instanceof Error ? error.message : 'Failed to connect to MIDI');
+        }
+    };
+
+    useEffect(() => () => midi?.dispose(), [midi]);
+
+    const selectMidiInput = (id: string | null) => {
+        midi?.selectInput(id);
+        setMidiInputId(id);
+        midiHeldPadsRef.current.clear();
+    };
+
+    const setMidiLearning = (learning: boolean) => {
+        setIsMidiLearning(learning);
+        setMidiLearnTarget(null);
+    };
+
+    const armMidiLearn = (target: MidiTarget) => {
+        setMidiLearnTarget(current => current === target ? null : target);
     };
 
+    const updateMidiMappings = (next: MidiMapping) => {
+        setMidiMappings(next);
+        saveMidiMappings(next);
+    };
+
+    const forgetMidiControl = (target: MidiTarget) => {
+        updateMidiMappings(forgetTarget(midiMappings, target));
+    };
+
+    /**
+     * Moves a control the way dragging it would.
+     * Controllers have no let-go event, so a sweep is one gesture until another controller moves, a drag starts or a key is pressed.
+     */
+    const applyMidiControl = (key: string, target: MidiTarget, value: number) => {
+        if (midiSweepRef.current !== key) {
+            midiSweepRef.current = key;
+            history.beginGesture();
+        }
+
+        switch (target) {
+            case 'globalKeyShift':
+                setGlobalKeyShift(value);
+                break;
+            case 'masterVolume':
+                setMasterVolume(value);
+                break;
+            default:
+                updateSelectedPadParams({ [target]: value });
+        }
+    };
+
+    const handleMidiMessage = (message: MidiMessage) => {
+        if (message.type === 'cc') {
+            const key = controlKey(message.channel, message.controller);
+            if (isMidiLearning && midiLearnTarget) {
+                updateMidiMappings(learnControl(midiMappings, key, midiLearnTarget));
+                setMidiLearnTarget(null);
+                return;
+            }
+            const target = midiMappings[key];
+            if (target) {
+                applyMidiControl(key, target, controlValue(target, message.value));
+            }
+            return;
+        }
+
+        const pad = pads[message.note - INSTRUMENT_BASE_NOTE];
+        if (!pad) return;
+
+        if (message.type === 'noteon') {
+            if (pad.cuePoint === null) {
+                // Like the keyboard, an empty pad gets a cue point where the track is
+                setPadCuePoint(pad.id, snap(audioEngine.getCurrentTime()));
+                return;
+            }
+            midiHeldPadsRef.current.add(pad.id);
+            void triggerPad(pad.id, message.velocity / 127);
+        } else if (midiHeldPadsRef.current.delete(pad.id)) {
+            // Note-off lets go of the pad, which in gate mode stops it
+            releasePadLoop(pad.id);
+            if (playMode === 'gate') {
+                stopPad(pad.id);
+            }
+        }
+    };
+
+    // The handler reads the latest state, so it's swapped in after every render
+    useEffect(() => {
+        if (midi) {
+            midi.onMessage = handleMidiMessage;
+        }
+    });
+
     const workerReadyRef = useRef(false);
 
-    const performAnalysisWithReuse = async (audioBuffer: AudioBuffer) => {
+    /**
+     * Analyzes the audio in the worker.
+     * @param restored Settings of an opened project, which take precedence over the detected tempo and grid
+     */
+    const performAnalysisWithReuse = async (audioBuffer: AudioBuffer, restored?: ProjectSettings) => {
         try {
             setFileLoadStatus('Analyzing audio');
             const pcmData = audioBuffer.getChannelData(0);
@@ -358,25 +1261,21 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
                     const { type, payload } = e.data;
 
                     if (type === 'RESULT') {
-                        setDetectedBpm(payload.bpm);
-                        setCurrentBpm(payload.bpm);
-
-                        const { key, scale } = payload;
-                        const keyName = key as string;
-
-                        const mode = keyName.includes('b') ? 'flat' : 'sharp';
-                        setKeyMode(mode);
-
-                        const normalizedKey = flatToSharpMap[keyName] || keyName;
-                        const keyIndex = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].indexOf(normalizedKey);
-
-                        if (keyIndex !== -1) {
-                            setDetectedKeyIndex(keyIndex);
-                        } else {
-                            setDetectedKeyIndex(null);
+                        const bpm = restored?.detectedBpm ?? payload.bpm;
+                        const playbackBpm = restored?.bpm ?? bpm;
+                        setDetectedBpm(bpm);
+                        setCurrentBpm(playbackBpm);
+                        if (bpm) {
+                            audioEngine.setGlobalSpeed(playbackBpm / bpm);
                         }
-
-                        setDetectedKey(`${key} ${scale}`);
+                        setDetectedBeats(payload.beats);
+                        setDetectedTransients(payload.transients);
+                        setDownbeatOffsetState(restored?.downbeatOffset ?? payload.downbeat);
+
+                        const [restoredKey, restoredScale] = restored?.detectedKey?.split(' ') ?? [];
+                        applyDetectedKey({ key: restoredKey ?? payload.key, scale: restoredScale ?? payload.scale });
+                        setKeyCandidates(payload.keyCandidates ?? []);
+                        setBpmCandidates(payload.bpmCandidates ?? []);
                         setIsAnalyzing(false);
                         setFileLoadStatus(null);
                         worker?.removeEventListener('message', handleMessage);
@@ -413,31 +1312,162 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         }
     };
 
-    const loadFile = async (file: File) => {
+    /**
+     * Asks the analysis worker for the transients of the loaded track.
+     */
+    const detectOnsets = (sensitivity: number, minGap: number) => {
+        return new Promise<Onset[]>((resolve, reject) => {
+            const worker = workerRef.current;
+            if (!worker || !workerReadyRef.current) {
+                reject(new Error('Audio has not been analyzed yet'));
+                return;
+            }
+
+            const handleMessage = (e: MessageEvent<WorkerMessage>) => {
+                const { type, payload } = e.data;
+                if (type === 'ONSETS') {
+                    worker.removeEventListener('message', handleMessage);
+                    resolve(payload as Onset[]);
+                } else if (type === 'ERROR') {
+                    worker.removeEventListener('message', handleMessage);
+                    reject(new Error(payload));
+                }
+            };
+
+            worker.addEventListener('message', handleMessage);
+            worker.postMessage({ type: 'DETECT_ONSETS', payload: { sensitivity, minGap } });
+        });
+    };
+
+    /**
+     * Places the strongest transients on empty pads, in time order.
+     * Pads still holding a previous auto-chop count as empty, so this can be re-run with new settings.
+     */
+    const autoChop = async ({ count, sensitivity, minGap }: AutoChopOptions) => {
+        if (isAnalyzing) return;
+
+        setIsChopping(true);
+        try {
+            const onsets = await detectOnsets(sensitivity, minGap);
+            const times = pickStrongestOnsets(onsets, count);
+
+            const previousChops = autoChopsRef.current;
+            const available = pads.map(p => (
+                p.cuePoint !== null && previousChops.get(p.id) === p.cuePoint
+                    ? { ...p, cuePoint: null, endPoint: null, loopStart: null, loopEnd: null }
+                    : p
+            ));
+
+            const assignments = assignChopsToPads(available, times);
+            autoChopsRef.current = assignments;
+
+            editPads('Auto chop', () => available.map(p => {
+                const time = assignments.get(p.id);
+                return time !== undefined ? { ...p, cuePoint: time } : p;
+            }));
+        } catch (error) {
+            console.error('[AutoChop] Failed to detect transients:', error);
+            setError(error instanceof Error ? error.message : 'Auto-chop failed');
+        } finally {
+            setIsChopping(false);
+        }
+    };
+
+    /**
+     * Snaps a time to the current snap mode's nearest target.
+     */
+    const snap = (time: number) => snapTime(time, snapMode, {
+        buffer: audioEngine.getAudioBuffer(),
+        transients: detectedTransients,
+        grid: beatGrid,
+        gridSubdivisions: SNAP_GRID_SUBDIVISIONS,
+    });
+
+    const setDownbeatOffset = (offset: number) => {
+        if (!beatGrid) return;
+        editSetting('Move downbeat', downbeatOffset, normalizeOffset(beatGrid, offset), setDownbeatOffsetState, 'downbeat');
+    };
+
+    /**
+     * Replaces all pads with slices of `count` beats or bars along the beat grid,
+     * across the chop region (or the whole track). Pads beyond the last slice are left empty.
+     */
+    const gridChop = ({ count, unit }: GridChopOptions) => {
+        if (!beatGrid || duration <= 0) return;
+
+        const region = chopRegion ?? { start: 0, end: duration };
+        const step = stepDuration(beatGrid, count, unit);
+        const starts = gridLines(beatGrid, step, region).slice(0, pads.length);
+
+        autoChopsRef.current = new Map();
+        editPads('Grid chop', prev => prev.map((p, i) => {
+            const start = starts[i];
+            if (start === undefined) {
+                return { ...p, cuePoint: null, endPoint: null, loopStart: null, loopEnd: null };
+            }
+            return {
+                ...p,
+                cuePoint: start,
+                endPoint: Math.min(start + step, region.end),
+                loopStart: null,
+                loopEnd: null,
+            };
+        }));
+    };
+
+    /**
+     * Loads an audio file into the sampler and analyzes it.
+     * With a project, its pads and settings are restored instead of starting fresh.
+     */
+    const loadSource = async (file: File, project?: Project, isRestoring = false) => {
         const tempCtx = new (window.AudioContext || window.webkitAudioContext)();
 
         try {
+            stopSequencer();
+            setStoredSession(null);
             setIsAnalyzing(true);
             setFileLoadStatus('Preparing import');
             setDetectedBpm(null);
             setDetectedKey(null);
+            setKeyCandidates([]);
+            setBpmCandidates([]);
             setCurrentBpm(null);
+            setDownbeatOffsetState(0);
+            setDetectedBeats([]);
+            setDetectedTransients([]);
+            setChopRegion(null);
             audioEngine.setGlobalSpeed(1.0);
-            setGlobalKeyShift(0);
+            setGlobalKeyShiftState(project?.settings.globalKeyShift ?? 0);
             setError(null);
 
-            const buffer = await AudioLoader.loadFromFile(file, tempCtx, setFileLoadStatus);
+            const { buffer, markers } = await AudioLoader.loadFromFile(file, tempCtx, setFileLoadStatus);
 
             setFileLoadStatus('Loading into sampler');
             await audioEngine.setAudioBuffer(buffer);
+            sourceFileRef.current = file;
+            if (!isRestoring) {
+                saveSessionAudio(file).catch(error => console.error('[Session] Failed to store audio:', error));
+            }
 
             const dur = audioEngine.getDuration();
             setDuration(dur);
 
-            setPads(INITIAL_PADS.map(p => ({ ...p, cuePoint: null })));
+            if (project) {
+                applyPads(restorePads(project.pads));
+                setPlayModeState(project.settings.playMode);
+                setMasterVolumeState(project.settings.masterVolume);
+                setSnapModeState(project.settings.snapMode);
+                setPatternState(normalizePattern(project.pattern));
+            } else {
+                setPatternState(createPattern());
+                // Cue markers in the file become pads
+                applyPads(padsFromMarkers(markers, dur));
+            }
+            autoChopsRef.current = new Map();
+            history.clear();
 
             // Perform analysis
-            performAnalysisWithReuse(buffer);
+            performAnalysisWithReuse(buffer, project?.settings);
 
         } catch (error: unknown) {
             console.error('[AudioContext] Failed to load audio file:', error);
@@ -452,11 +1482,238 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         }
     };
 
+    const loadFile = (file: File) => loadSource(file);
+
+    const currentSettings = (): ProjectSettings => ({
+        globalKeyShift,
+        bpm: currentBpm,
+        detectedBpm,
+        detectedKey,
+        downbeatOffset,
+        playMode,
+        masterVolume,
+        snapMode,
+    });
+
+    /**
+     * Downloads the current session as a project file.
+     * @param embedAudio Include a copy of the audio, so the project opens anywhere
+     */
+    const saveProject = async (embedAudio: boolean) => {
+        const audioFile = sourceFileRef.current;
+        if (!audioFile) return;
+
+        try {
+            const project = await createProject(audioFile, pads, pattern, currentSettings(), embedAudio);
+            downloadBlob(serializeProject(project), projectFileName(audioFile.name));
+        } catch (error) {
+            console.error('[Project] Failed to save project:', error);
+            setError(error instanceof Error ? error.message : 'Failed to save project');
+        }
+    };
+
+    // ========================================================================
+    // Export
+    // ========================================================================
+
+    /**
+     * Renders the given pads offline as WAV files named after their labels.
+     * A single pad downloads as it is; several are bundled into one zip, as browsers block
+     * a page that starts many downloads at once. Empty pads are skipped.
+     */
+    const exportPads = async (ids: string[], format: WavFormat) => {
+        const audioFile = sourceFileRef.current;
+        const targets = pads.filter(p => ids.includes(p.id) && p.cuePoint !== null);
+        if (!audioFile || targets.length === 0 || isExporting) return;
+
+        setIsExporting(true);
+        try {
+            const name = audioFile.name.replace(/\.[^.]+$/, '') || 'Chops';
+            const entries: ZipEntry[] = [];
+            for (const pad of targets) {
+                const rendered = await audioEngine.renderPad(pad.cuePoint!, toEngineParams(pad), {
+                    endPoint: pad.endPoint,
+                    sampleRate: format.sampleRate,
+                    mix: toPadMix(pad)
+                });
+                const wav = encodeWav(rendered, format.bitDepth);
+                const fileName = chopFileName(audioFile.name, pad.label);
+                if (targets.length === 1) {
+                    downloadBlob(wav, fileName);
+                } else {
+                    entries.push({ path: `${name}/${fileName}`, data: new Uint8Array(await wav.arrayBuffer()) });
+                }
+            }
+
+            if (entries.length > 0) {
+                downloadBlob(createZip(entries), `${name} - chops.zip`);
+            }
+        } catch (error) {
+            console.error('[Export] Failed to export pads:', error);
+            setError(error instanceof Error ? error.message : 'Failed to export pads');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    /**
+     * Exports the pads as a sampler instrument: a zip with an SFZ file (and optionally a
+     * DecentSampler preset) mapping each pad to a MIDI note from INSTRUMENT_BASE_NOTE, plus its samples.
+     * The envelope, reverse, choke and mute groups become sampler settings (envelope curves keep the sampler's own). Unrendered samples
+     * carry the pitch over as a transpose; speed can only be kept by rendering.
+     */
+    const exportInstrument = async (options: InstrumentExportOptions) => {
+        const audioFile = sourceFileRef.current;
+        const targets = pads
+            .map((pad, index) => ({ pad, note: INSTRUMENT_BASE_NOTE + index }))
+            .filter(({ pad }) => pad.cuePoint !== null);
+        if (!audioFile || targets.length === 0 || isExporting) return;
+
+        setIsExporting(true);
+        try {
+            const name = audioFile.name.replace(/\.[^.]+$/, '') || 'Kit';
+            const { bitDepth, sampleRate } = options.format;
+            const entries: ZipEntry[] = [];
+            const regions: InstrumentRegion[] = [];
+
+            const addSample = async (fileName: string, buffer: AudioBuffer) => {
+                const data = new Uint8Array(await encodeWav(buffer, bitDepth).arrayBuffer());
+                entries.push({ path: `${name}/${INSTRUMENT_SAMPLE_FOLDER}/${fileName}`, data });
+            };
+
+            for (const { pad, note } of targets) {
+                const params = toEngineParams(pad);
+
+                // Envelope and direction are left to the sampler, so the sample is the part of the file
+                // the pad plays, facing forwards (reversed pads without an end point play up to their cue)
+                const range = padRange(pad.cuePoint!, pad.endPoint, params.reverse, audioEngine.getDuration());
+                const sample = options.renderSamples
+                    ? await audioEngine.renderPad(range.start, { ...params, reverse: false, attack: 0, decay: 0, sustain: 1, release: 0, filterEnvelope: 0 }, { endPoint: range.end, sampleRate })
+                    : await audioEngine.trimPad(pad.cuePoint!, params.reverse, { endPoint: pad.endPoint, sampleRate });
+                // Rendered samples already have the filter in them
+                const isFilterOpen = params.filterType === 'lowpass' && params.cutoff >= FILTER_OPEN_HZ && params.resonance === 0;
+
+                const region: InstrumentRegion = {
+                    sample: chopFileName(audioFile.name, pad.label),
+                    reversedSample: chopFileName(audioFile.name, `${pad.label} reversed`),
+                    note,
+                    attack: params.attack,
+                    decay: params.decay,
+                    sustain: params.sustain,
+                    release: params.release,
+                    reverse: params.reverse,
+                    transpose: options.renderSamples ? 0 : params.pitch + globalKeyShift,
+                    volume: pad.params.gain,
+                    pan: pad.params.pan / 100,
+                    chokeGroup: pad.chokeGroup,
+                    muteGroup: pad.muteGroup,
+                    filter: options.renderSamples || isFilterOpen
+                        ? null
+                        : { type: params.filterType, cutoff: params.cutoff, resonance: params.resonance },
+                };
+                regions.push(region);
+
+                await addSample(region.sample, sample);
+                if (region.reverse && options.includeDecentSampler) {
+                    await addSample(region.reversedSample, reverseBuffer(sample));
+                }
+            }
+
+            const instrument = { name, oneShot: playMode === 'trigger', regions };
+            const encoder = new TextEncoder();
+            entries.push({ path: `${name}/${name}.sfz`, data: encoder.encode(buildSfz(instrument)) });
+            if (options.includeDecentSampler) {
+                entries.push({ path: `${name}/${name}.dspreset`, data: encoder.encode(buildDecentSampler(instrument)) });
+            }
+
+            downloadBlob(createZip(entries), `${name}.zip`);
+        } catch (error) {
+            console.error('[Export] Failed to export instrument:', error);
+            setError(error instanceof Error ? error.message : 'Failed to export instrument');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    /**
+     * Downloads the whole track as a WAV file with the pads' cue points as markers,
+     * labelled with the pad labels. Slices are written as regions.
+     */
+    const exportMarkedWav = async (format: WavFormat) => {
+        const audioFile = sourceFileRef.current;
+        const buffer = audioEngine.getAudioBuffer();
+        if (!audioFile || !buffer || isExporting) return;
+
+        setIsExporting(true);
+        try {
+            const source = format.sampleRate && format.sampleRate !== buffer.sampleRate
+                ? await resample(buffer, format.sampleRate)
+                : buffer;
+            const markers: WavMarker[] = pads
+                .filter(p => p.cuePoint !== null)
+                .map(p => ({
+                    time: p.cuePoint!,
+                    length: p.endPoint !== null ? p.endPoint - p.cuePoint! : null,
+                    label: p.label,
+                }));
+            downloadBlob(encodeWav(source, format.bitDepth, markers), chopFileName(audioFile.name, 'markers'));
+        } catch (error) {
+            console.error('[Export] Failed to export markers:', error);
+            setError(error instanceof Error ? error.message : 'Failed to export markers');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    /**
+     * Opens a saved project.
+     * Projects without embedded audio need the audio file passed in as well;
+     * when it's missing, nothing is loaded and the referenced audio is returned so the caller can ask for it.
+     */
+    const openProject = async (projectFile: File, audioFile?: File): Promise<ProjectAudio | null> => {
+        try {
+            const project = parseProject(await projectFile.text());
+            const audio = audioFile ?? await extractProjectAudio(project);
+            if (!audio) return project.audio;
+
+            await loadSource(audio, project);
+        } catch (error) {
+            console.error('[Project] Failed to open project:', error);
+            setError(error instanceof Error ? error.message : 'Failed to open project');
+        }
+        return null;
+    };
+
+    const restoreSession = async () => {
+        if (!storedSession) return;
+        await loadSource(storedSession.audio, storedSession.project, true);
+    };
+
+    // Declining the restore throws the autosave away, so it isn't offered again
+    const dismissSession = () => {
+        setStoredSession(null);
+        clearSession().catch(error => console.error('[Session] Failed to clear the autosave:', error));
+    };
+
+    // Autosave the session once things settle down
+    useEffect(() => {
+        const audioFile = sourceFileRef.current;
+        if (!audioFile || isAnalyzing) return;
+
+        const timer = setTimeout(() => {
+            createProject(audioFile, pads, pattern, currentSettings(), false)
+                .then(saveSessionProject)
+                .catch(error => console.error('[Session] Autosave failed:', error));
+        }, AUTOSAVE_DELAY_MS);
+
+        return () => clearTimeout(timer);
+    }, [pads, pattern, globalKeyShift, currentBpm, detectedBpm, detectedKey, downbeatOffset, playMode, masterVolume, snapMode, isAnalyzing]);
+
     const dismissError = () => setError(null);
 
     const value = useMemo<AudioContextType>(() => ({
         duration,
-        isPlaying,
+        isPlaying: isPlaying || isSequencerPlaying,
         audioEngine,
         pads,
         selectedPadId,
@@ -470,10 +1727,60 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         detectedKey,
         currentBpm,
         setBpm,
+        scaleBpm,
+        chooseKeyCandidate,
+        chooseBpmCandidate,
         isAnalyzing,
+        isChopping,
+        isExporting,
         fileLoadStatus,
         keyMode,
         detectedKeyIndex,
+        keyCandidates,
+        bpmCandidates,
+        beatGrid,
+        detectedBeats,
+        detectedTransients,
+        snapMode,
+        setSnapMode,
+        snap,
+        pattern,
+        isSequencerPlaying,
+        sequencer,
+        startSequencer,
+        stopSequencer,
+        setPatternStep,
+        setPatternBars,
+        setTimeSignature,
+        clearPattern,
+        setSwing,
+        applyQuantize,
+        isRecording,
+        isCountingIn,
+        recordMode,
+        inputQuantize,
+        countInBars,
+        startRecording,
+        stopRecording,
+        setRecordMode,
+        setInputQuantize,
+        setCountInBars,
+        isMetronomeOn,
+        metronomeVolume,
+        setMetronomeOn,
+        setMetronomeVolume,
+        isMidiConnected: midi !== null,
+        midiInputs,
+        midiInputId,
+        isMidiLearning,
+        midiLearnTarget,
+        midiMappings,
+        connectMidi,
+        selectMidiInput,
+        setMidiLearning,
+        armMidiLearn,
+        forgetMidiControl,
+        chopRegion,
         error,
         play,
         pause,
@@ -481,15 +1788,38 @@ export const AudioProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         triggerPad,
         stopPad,
         setPadCuePoint,
+        setPadEndPoint,
+        setPadLoopPoints,
+        releasePadLoop,
         clearPad,
         selectPad,
+        setPadChokeGroup,
+        setPadMuteGroup,
+        autoChop,
+        gridChop,
+        setDownbeatOffset,
+        setChopRegion,
         updateSelectedPadParams,
         loadFile,
+        saveProject,
+        openProject,
+        exportPads,
+        exportInstrument,
+        exportMarkedWav,
+        storedSession,
+        restoreSession,
+        dismissSession,
+        undo,
+        redo,
+        ...historyState,
         dismissError,
     }), [
         duration, isPlaying, audioEngine, pads, selectedPadId,
         playMode, masterVolume, globalKeyShift, detectedBpm,
-        detectedKey, currentBpm, isAnalyzing, fileLoadStatus, keyMode, detectedKeyIndex, error
+        detectedKey, currentBpm, isAnalyzing, isChopping, isExporting, fileLoadStatus, keyMode, detectedKeyIndex, keyCandidates, bpmCandidates,
+        beatGrid, downbeatOffset, detectedBeats, detectedTransients, snapMode, chopRegion, pattern, isSequencerPlaying,
+        isRecording, isCountingIn, recordMode, inputQuantize, countInBars, isMetronomeOn, metronomeVolume,
+        midi, midiInputs, midiInputId, isMidiLearning, midiLearnTarget, midiMappings, storedSession, historyState, error
     ]);
 
     return (
@@ -1,4 +1,12 @@
 import processorUrl from '../workers/rubberband.worklet.js?worker&url';
+import { Voice, VoiceEndReason, VoiceStartOptions } from './Voice';
+import { renderOffline, resample } from './offlineRender';
+import { BeatGrid } from './beatGrid';
+import { Slice, getSlice, padRange, sliceRange } from './slice';
+import { ChannelStrip, DEFAULT_PAD_MIX, PadMix, isPadAudible } from './ChannelStrip';
+import {
+    DEFAULT_MAX_VOICES, FILTER_OPEN_HZ, METRONOME_DEFAULT_VOLUME, MUTE_GROUP_FADE_TIME, SEQUENCER_LOOKAHEAD_SECONDS, SEQUENCER_TICK_MS
+} from '../config/constants';
 
 // ============================================================================
 // Types & Interfaces
@@ -9,50 +17,96 @@ export interface PadParams {
     pitch: number;      // pitch in semitones (-12 to +12)
     reverse: boolean;   // reverse playback
     attack: number;     // attack time in seconds
+    decay: number;      // decay time in seconds
+    sustain: number;    // sustain level (0-1 of the volume)
     release: number;    // release time in seconds
+    envelopeCurve: EnvelopeCurve;
     volume: number;     // pad volume (0-1)
+    filterType: FilterType;
+    cutoff: number;     // filter cutoff in Hz (FILTER_OPEN_HZ leaves a lowpass open)
+    resonance: number;  // filter resonance (0-1), 0 is flat
+    filterEnvelope: number; // how far the attack moves the cutoff (-1 to 1, in units of FILTER_ENVELOPE_OCTAVES)
 }
 
-type PlaybackMode = 'global' | 'pad';
+/** Shape of the envelope stages: straight lines, or fast at first then easing in like a natural decay */
+export type EnvelopeCurve = 'linear' | 'exponential';
 
-interface PlaybackState {
-    mode: PlaybackMode;
-    cuePoint: number;           // Where in the audio file playback starts
-    startTime: number;           // When playback started (AudioContext.currentTime)
-    duration: number;            // How long to play (in original time)
-    params: PadParams;           // Current playback parameters
-    isPlaying: boolean;
-    currentPadId: string | null; // Track which pad is currently playing
+/** Response of a pad's filter */
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass';
+
+/**
+ * How a pad loops:
+ * - off: plays its slice once
+ * - forward: wraps from the loop end back to the loop start until released
+ * - pingpong: bounces between the loop points until released
+ * - sustain: loops forward while held, then plays on to the end of the slice
+ */
+export type LoopMode = 'off' | 'forward' | 'pingpong' | 'sustain';
+
+export interface LoopRegion {
+    mode: LoopMode;
+    start: number;  // Loop start in seconds
+    end: number;    // Loop end in seconds
+}
+
+export interface PadPlayOptions {
+    chokeGroup?: number | null; // Triggering releases other pads in this group
+    muteGroup?: number | null;  // Triggering cuts other pads in this group off at once
+    endPoint?: number | null;   // End of the pad's slice (defaults to the end of the file)
+    loop?: LoopRegion | null;   // Loop points, kept inside the slice
+    when?: number;              // Audio clock time to start at (defaults to now)
+    releaseAt?: number;         // Audio clock time to release the hit at (defaults to playing it out)
+    sequenced?: boolean;        // Plays along with the transport instead of taking over its playhead
 }
 
+export interface PadRenderOptions {
+    endPoint?: number | null;   // End of the pad's slice (defaults to the end of the file)
+    sampleRate?: number | null; // Sample rate of the result (defaults to the source's)
+    mix?: PadMix;               // Gain and pan to bake in (defaults to none)
+}
+
+// What _startVoice needs beyond the params; the rest is derived from engine state
+type VoicePlayback = Pick<VoiceStartOptions, 'padId' | 'chokeGroup' | 'muteGroup' | 'cuePoint' | 'startPosition' | 'duration' | 'loop'>;
+
+// Shortest loop the engine will play (in seconds)
+const MIN_LOOP_LENGTH = 0.01;
+
+// Parameters used by the global transport
+const DEFAULT_GLOBAL_PARAMS: PadParams = {
+    speed: 1.0, pitch: 0, reverse: false, attack: 0, decay: 0, sustain: 1, release: 0.1, envelopeCurve: 'linear', volume: 1.0,
+    filterType: 'lowpass', cutoff: FILTER_OPEN_HZ, resonance: 0, filterEnvelope: 0
+};
+
+// Metronome click: a short sine blip (frequencies in Hz, length in seconds), louder on the downbeat
+const CLICK_FREQUENCY = 1000;
+const CLICK_ACCENT_FREQUENCY = 1500;
+const CLICK_LENGTH = 0.05;
+const CLICK_LEVEL = 0.7;
+const CLICK_ACCENT_LEVEL = 1.0;
+
 // ============================================================================
 // Audio Engine Class
 // ============================================================================
 
 /**
  * Core audio engine handling Web Audio API interactions.
- * Manages audio context, worklet nodes (Rubberband), and playback state.
+ * Manages audio context, a pool of pad voices (Rubberband worklets), and the global transport.
  */
 export class AudioEngine {
     // Audio buffer and context
     private audioBuffer: AudioBuffer | null = null;
     private audioContext: AudioContext | null = null;
-    private workletNode: AudioWorkletNode | null = null;
-    private envelopeGain: GainNode | null = null;
     private masterGain: GainNode | null = null;
+    private metronomeGain: GainNode | null = null;
     private wasmBytes: ArrayBuffer | null = null;
     private initPromise: Promise<void> | null = null;
+    private sourcePromise: Promise<void> | null = null;
 
-    // Playback state
-    private state: PlaybackState = {
-        mode: 'global',
-        cuePoint: 0,
-        startTime: 0,
-        duration: 0,
-        params: { speed: 1.0, pitch: 0, reverse: false, attack: 0, release: 0.1, volume: 1.0 },
-        isPlaying: false,
-        currentPadId: null
-    };
+    // Voices
+    private voices: Voice[] = [];           // Pad voice pool
+    private transportVoice: Voice | null = null;
+    private lastPadVoice: Voice | null = null; // Voice the playhead follows
+    private maxVoices: number = DEFAULT_MAX_VOICES;
 
     // Global settings
     private globalOffset: number = 0;
@@ -60,11 +114,17 @@ export class AudioEngine {
     private globalSpeed: number = 1.0; // Global speed multiplier
     private masterVolume: number = 0.75;
 
+    // Per-pad channel strips, created when a pad first plays
+    private strips = new Map<string, ChannelStrip>();
+    private padMixes: Record<string, PadMix> = {};
+
+    // Metronome following the global transport
+    private metronomeGrid: BeatGrid | null = null;
+    private metronomeTimer: ReturnType<typeof setInterval> | null = null;
+    private lastClickBeat: number | null = null;
+
     // Callbacks
     private _onStop: (() => void) | null = null;
-    private updateInterval: number | null = null;
-    private lastUpdateTime: number = 0;
-    private accumulatedPosition: number = 0;
 
     constructor() {
         // Initialize AudioContext
@@ -72,6 +132,9 @@ export class AudioEngine {
         this.masterGain = this.audioContext.createGain();
         this.masterGain.gain.value = this.masterVolume;
         this.masterGain.connect(this.audioContext.destination);
+        this.metronomeGain = this.audioContext.createGain();
+        this.metronomeGain.gain.value = METRONOME_DEFAULT_VOLUME / 100;
+        this.metronomeGain.connect(this.masterGain);
     }
 
     set onStop(callback: () => void) {
@@ -90,27 +153,40 @@ export class AudioEngine {
         this.globalPitchOffset = semitones;
 
         // Apply immediately to active playback
-        if (this.workletNode && this.state.isPlaying) {
-            const totalPitch = this.state.params.pitch + this.globalPitchOffset;
-            const pitchRatio = totalPitch === 0 ? 1.0 : Math.pow(2, totalPitch / 12);
-            const pitchParam = this.workletNode.parameters.get('pitch');
-            if (pitchParam) {
-                pitchParam.setTargetAtTime(pitchRatio, this.audioContext?.currentTime || 0, 0.02);
-            }
-        }
+        this.activeVoices().forEach(voice => {
+            voice.setPitchRatio(this.getPitchRatio(voice.params));
+        });
     }
 
     setGlobalSpeed(speed: number) {
         this.globalSpeed = Math.max(0.1, Math.min(4.0, speed)); // Clamp to reasonable range
 
         // Apply immediately to active playback
-        if (this.workletNode && this.state.isPlaying) {
-            const totalSpeed = this.state.params.speed * this.globalSpeed;
-            const tempoParam = this.workletNode.parameters.get('tempo');
-            if (tempoParam) {
-                tempoParam.setTargetAtTime(totalSpeed, this.audioContext?.currentTime || 0, 0.02);
-            }
-        }
+        this.activeVoices().forEach(voice => {
+            voice.setTempo(voice.params.speed * this.globalSpeed);
+        });
+    }
+
+    /**
+     * Sets how many pad voices may sound at once.
+     * When the limit is reached, the oldest voice is stolen for the next trigger.
+     */
+    setMaxVoices(count: number) {
+        this.maxVoices = Math.max(1, Math.floor(count));
+
+        // Drop voices above the new limit
+        const removed = this.voices.splice(this.maxVoices);
+        removed.forEach(voice => {
+            voice.onEnded = null;
+            voice.stop();
+            voice.node.disconnect();
+            voice.envelope.disconnect();
+            if (this.lastPadVoice === voice) this.lastPadVoice = null;
+        });
+    }
+
+    getMaxVoices(): number {
+        return this.maxVoices;
     }
 
     private async initAudioWorklet() {
@@ -139,41 +215,27 @@ export class AudioEngine {
     }
 
     async setAudioBuffer(buffer: AudioBuffer): Promise<void> {
+        // Voices must not keep reading the previous track
+        this.stopAllVoices();
         this.audioBuffer = buffer;
+        this.globalOffset = 0;
+        this.lastPadVoice = null;
 
         // Initialize Worklet if needed
         await this.initAudioWorklet();
 
-        if (this.workletNode) {
-            const left = buffer.getChannelData(0);
-            const right = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : null;
-
-            this.workletNode.port.postMessage({
-                type: 'load',
-                left: left,
-                right: right
-            });
-        }
-    }
-
-    private _stopPlayback(preservePadId: boolean = false) {
-        if (this.workletNode) {
-            this.workletNode.port.postMessage({ type: 'stop' });
-        }
-
-        this.state.isPlaying = false;
-        if (!preservePadId) {
-            this.state.currentPadId = null;
+        // The source is shared across the worklet scope, so loading it through one voice is enough
+        const loader = this.getTransportVoice();
+        if (!loader) return;
+        this.sourcePromise = loader.loadSource(buffer);
+        await this.sourcePromise;
+
+        // Warm up the pad voice pool so the first triggers don't wait on WASM setup
+        while (this.voices.length < this.maxVoices) {
+            const voice = this.createVoice();
+            if (!voice) break;
+            this.voices.push(voice);
         }
-
-        // Reset position tracking
-        this.lastUpdateTime = 0;
-        // accumulatedPosition is NOT reset here because we might want to resume or we are just stopping.
-        // Actually, if we stop, we usually reset or pause.
-        // If we pause, we keep the position.
-        // If we stop completely, we might reset.
-        // The previous code reset it. Let's keep it consistent with previous behavior for now, 
-        // but `pause()` handles the offset.
     }
 
     // ========================================================================
@@ -186,76 +248,64 @@ export class AudioEngine {
      */
 
     async play() {
-        if (this.state.isPlaying) return;
+        if (this.isGlobalPlaying) return;
         if (!this.audioBuffer || !this.audioContext) {
             console.warn('Audio not loaded yet');
             return;
         }
 
         // Stop any current playback immediately
-        this._stopPlayback();
+        this.stopAllVoices();
 
         // Resume context if needed
         if (this.audioContext.state === 'suspended') {
             await this.audioContext.resume();
         }
 
-        // FORCE reset to global mode with EXACT normal settings
-        this.state.mode = 'global';
-        this.state.params = { speed: 1.0, pitch: 0, reverse: false, attack: 0, release: 0.1, volume: 1.0 };
-        this.state.cuePoint = this.globalOffset;
-
         // Calculate duration
-        const duration = this.getDuration() - this.globalOffset;
+        let duration = this.getDuration() - this.globalOffset;
         if (duration <= 0) {
             this.globalOffset = 0;
-            this.state.cuePoint = 0;
+            duration = this.getDuration();
         }
 
-        // Reset position tracking
-        this.lastUpdateTime = 0;
-        this.accumulatedPosition = this.globalOffset; // Start from current offset
-
-        // Start playback
-        await this._startPlayback(this.globalOffset, duration, this.state.params);
+        // Start playback with EXACT normal settings
+        const voice = await this._prepareVoice(() => this.getTransportVoice());
+        if (!voice) return;
+
+        this._startVoice(voice, {
+            padId: null,
+            chokeGroup: null,
+            muteGroup: null,
+            cuePoint: this.globalOffset,
+            startPosition: this.globalOffset,
+            duration,
+            loop: null
+        }, { ...DEFAULT_GLOBAL_PARAMS });
+        this.updateMetronomeTimer();
     }
 
     pause() {
         // Capture current position BEFORE stopping
-        let currentPos = 0;
-        if (this.state.isPlaying) {
-            currentPos = this.getCurrentTime();
-        } else {
-            currentPos = this.globalOffset;
-        }
+        const currentPos = this.getCurrentTime();
 
         // Stop any playback immediately
-        this._stopPlayback();
+        this.stopAllVoices();
 
         // Set global offset to current position (pauses at current location)
         this.globalOffset = currentPos;
-
-        // FORCE reset to global mode
-        this.state.mode = 'global';
-        this.state.params = { speed: 1.0, pitch: 0, reverse: false, attack: 0, release: 0.1, volume: 1.0 };
-        this.state.isPlaying = false;
-        this.state.currentPadId = null;
+        this.lastPadVoice = null;
     }
 
     seek(time: number) {
-        const wasPlaying = this.state.isPlaying;
+        const wasPlaying = this.isPlaying;
 
         if (wasPlaying) {
             this.pause();
         }
 
         this.globalOffset = Math.max(0, Math.min(time, this.getDuration()));
-        this.state.mode = 'global';
-        this.state.params = { speed: 1.0, pitch: 0, reverse: false, attack: 0, release: 0.1, volume: 1.0 };
-
-        // Reset position tracking
-        this.lastUpdateTime = 0;
-        this.accumulatedPosition = this.globalOffset;
+        this.lastPadVoice = null;
 
         if (wasPlaying) {
             this.play();
@@ -263,95 +313,62 @@ export class AudioEngine {
     }
 
     getCurrentTime(): number {
-        if (!this.state.isPlaying || !this.audioContext) {
-            if (this.state.mode === 'pad') {
-                // For pad mode, return relative to cue point? Or just accumulated?
-                // Usually we want to see where we are.
-                return this.accumulatedPosition;
-            }
-            return Math.max(0, Math.min(this.getDuration(), this.globalOffset));
-        }
+        if (!this.audioContext) return this.globalOffset;
 
         const now = this.audioContext.currentTime;
 
-        // Initialize on first call after play starts
-        if (this.lastUpdateTime === 0) {
-            this.lastUpdateTime = this.state.startTime;
-            // accumulatedPosition is already set in play() or playPad()
+        // Advance every voice so finished ones are detected, even when not displayed
+        let position: number | null = null;
+        if (this.transportVoice?.isActive) {
+            position = this.transportVoice.advance(now, this.globalSpeed);
         }
+        this.activeVoices().forEach(voice => {
+            if (voice === this.transportVoice) return;
+            const voicePosition = voice.advance(now, this.globalSpeed);
+            if (voice === this.lastPadVoice && position === null) {
+                position = voicePosition;
+            }
+        });
 
-        // Calculate time delta
-        const timeDelta = now - this.lastUpdateTime;
-
-        // Update position
-        this.updatePosition(timeDelta);
-
-        // Update last update time
-        this.lastUpdateTime = now;
-
-        // Check for completion
-        this.checkPlaybackCompletion(now);
+        // Idle: the playhead rests at the global offset
+        if (position === null) {
+            position = this.globalOffset;
+        }
 
         // Always clamp to valid range
-        return Math.max(0, Math.min(this.getDuration(), this.accumulatedPosition));
+        return Math.max(0, Math.min(this.getDuration(), position));
     }
 
-    private updatePosition(timeDelta: number) {
-        // Calculate effective speed (pad speed * global speed)
-        const effectiveSpeed = this.state.params.speed * this.globalSpeed;
-
-        // Update accumulated position based on current speed
-        if (this.state.params.reverse) {
-            this.accumulatedPosition -= timeDelta * effectiveSpeed;
-        } else {
-            this.accumulatedPosition += timeDelta * effectiveSpeed;
-        }
+    getDuration(): number {
+        return this.audioBuffer?.duration || 0;
     }
 
-    private checkPlaybackCompletion(now: number) {
-        // Calculate effective speed
-        const effectiveSpeed = this.state.params.speed * this.globalSpeed;
-
-        // Calculate elapsed in original time
-        const elapsed = now - this.state.startTime;
-        const playbackElapsed = elapsed * effectiveSpeed;
-
-        // Check if playback finished
-        if (playbackElapsed >= this.state.duration - 0.01) {
-            this.state.isPlaying = false;
-            this._stopPlayback();
-
-            // Set final position
-            if (this.state.params.reverse) {
-                this.accumulatedPosition = 0;
-            } else {
-                if (this.state.mode === 'pad') {
-                    this.accumulatedPosition = Math.min(this.getDuration(), this.state.cuePoint + this.state.duration);
-                } else {
-                    this.accumulatedPosition = Math.min(this.getDuration(), this.globalOffset + this.state.duration);
-                    this.globalOffset = this.accumulatedPosition; // Update global offset
-                }
-            }
-
-            // Notify stop
-            if (this._onStop) this._onStop();
-        }
+    /**
+     * Current time of the audio clock, which scheduled playback (`PadPlayOptions.when`) is measured against.
+     */
+    getContextTime(): number {
+        return this.audioContext?.currentTime ?? 0;
     }
 
-    getDuration(): number {
-        return this.audioBuffer?.duration || 0;
+    /**
+     * Starts the audio clock if the browser suspended it, so playback can be scheduled on it.
+     */
+    async resume() {
+        if (this.audioContext?.state === 'suspended') {
+            await this.audioContext.resume();
+        }
     }
 
     get isPlaying(): boolean {
-        return this.state.isPlaying;
+        return this.activeVoices().length > 0;
     }
 
     get isPadPlaying(): boolean {
-        return this.state.isPlaying && this.state.mode === 'pad';
+        return this.voices.some(voice => voice.isActive);
     }
 
     get isGlobalPlaying(): boolean {
-        return this.state.isPlaying && this.state.mode === 'global';
+        return this.transportVoice?.isActive ?? false;
     }
 
     // ========================================================================
@@ -360,18 +377,43 @@ export class AudioEngine {
 
     /**
      * Triggers playback for a specific pad with custom parameters.
-     * Stops any existing pad playback.
+     * Each trigger gets its own voice, so pads overlap. Retriggering a pad
+     * releases its previous voice, and when the pool is full the oldest voice is stolen.
+     * Other pads in the same choke group are released, other pads in the same mute group are cut off.
+     * With an end point the pad plays the slice between its cue and end points,
+     * reversed pads play that slice backwards from the end point.
+     * Looping pads repeat their loop region (clamped to the slice) until released.
+     * With `options.when` the pad starts at that audio clock time; the voices it
+     * releases are let go at the same time. With `options.releaseAt` the hit is
+     * released at that time, like a pad held down until then.
      */
 
-    async playPad(padId: string, cuePoint: number, params: PadParams) {
+    async playPad(padId: string, cuePoint: number, params: PadParams, options: PadPlayOptions = {}) {
+        const chokeGroup = options.chokeGroup ?? null;
+        const muteGroup = options.muteGroup ?? null;
+        const endPoint = options.endPoint ?? null;
+
         if (!this.audioBuffer || !this.audioContext) {
             console.warn('Audio not loaded yet');
             return;
         }
 
-        // Stop any current pad playback (don't stop global playback)
-        if (this.isPadPlaying) {
-            this._stopPlayback();
+        const slice = this.getSlice(cuePoint, endPoint, params.reverse);
+        const { startPosition, duration } = slice;
+        if (duration <= 0) {
+            console.warn(`Invalid playback parameters for pad ${padId}: duration=${duration}`);
+            return;
+        }
+
+        // Keep the loop inside the slice, so playback always runs into it
+        const range = sliceRange(slice, params.reverse);
+        let loop: LoopRegion | null = null;
+        if (options.loop && options.loop.mode !== 'off') {
+            const loopStart = Math.max(range.start, options.loop.start);
+            const loopEnd = Math.min(range.end, options.loop.end);
+            if (loopEnd - loopStart >= MIN_LOOP_LENGTH) {
+                loop = { mode: options.loop.mode, start: loopStart, end: loopEnd };
+            }
         }
 
         // Resume context if needed
@@ -379,195 +421,394 @@ export class AudioEngine {
             await this.audioContext.resume();
         }
 
-        // COMPLETELY reset state before applying new pad's settings
-        this.state.mode = 'pad';
-        this.state.currentPadId = padId;
-        this.state.cuePoint = cuePoint;
-        this.state.params = { ...params }; // Copy params
+        const voice = await this._prepareVoice(() => this.acquireVoice());
+        if (!voice) return;
 
-        // Calculate duration
-        let duration: number;
-        if (params.reverse) {
-            duration = cuePoint;
-        } else {
-            duration = this.getDuration() - cuePoint;
-        }
+        const when = Math.max(options.when ?? 0, this.audioContext.currentTime);
 
-        if (duration <= 0) {
-            console.warn(`Invalid playback parameters for pad ${padId}: duration=${duration}`);
-            this.state.isPlaying = false;
-            return;
+        // Pads take over the playhead from the global transport
+        if (!options.sequenced) {
+            this.transportVoice?.stop();
         }
 
-        // Reset position tracking
-        this.lastUpdateTime = 0;
-        this.accumulatedPosition = cuePoint;
-
-        // Start playback
-        await this._startPlayback(cuePoint, duration, params);
-    }
-
-    stopPad() {
-        // If we are in pad mode, stop.
-        if (this.isPadPlaying) {
-            // Store the cue point before stopping so we can return to it
-            const cuePoint = this.state.cuePoint;
-            const currentPadId = this.state.currentPadId;
-            // Use the actual release time from the pad's params
-            const releaseTime = this.state.params.release || 0.01;
-
-            // Fade out using the pad's release envelope
-            if (this.envelopeGain && this.audioContext) {
-                const now = this.audioContext.currentTime;
-                this.envelopeGain.gain.cancelScheduledValues(now);
-                this.envelopeGain.gain.setValueAtTime(this.envelopeGain.gain.value, now);
-                this.envelopeGain.gain.linearRampToValueAtTime(0, now + releaseTime);
-
-                // Stop worklet after release completes (add 5ms buffer)
-                const timeoutMs = Math.max(15, releaseTime * 1000 + 5);
-                setTimeout(() => {
-                    // Only stop and return if we're still in pad mode with the SAME pad
-                    if (this.state.mode === 'pad' && this.state.currentPadId === currentPadId) {
-                        this._stopPlayback();
-                        // Return to the pad's cue point (paused)
-                        this.globalOffset = cuePoint;
-                        this.state.mode = 'global';
-                        this.state.isPlaying = false;
-                    }
-                }, timeoutMs);
-            } else {
-                this._stopPlayback();
-                this.globalOffset = cuePoint;
-                this.state.mode = 'global';
-                this.state.isPlaying = false;
+        // Let the previous hit of this pad ring out with its own release
+        this.voices.forEach(other => {
+            if (other !== voice && other.isActive && other.padId === padId) {
+                other.release(other.params.release || 0.01, when);
             }
-        } else {
-            this.pause(); // Fallback
+        });
+        if (chokeGroup !== null) {
+            this.releaseGroup(chokeGroup, padId, when);
+        }
+        if (muteGroup !== null) {
+            this.muteGroup(muteGroup, padId, when);
+        }
+
+        this._startVoice(voice, { padId, chokeGroup, muteGroup, cuePoint, startPosition, duration, loop }, params, when);
+        if (!options.sequenced) {
+            this.lastPadVoice = voice;
+        }
+
+        if (options.releaseAt !== undefined) {
+            voice.release(params.release || 0.01, Math.max(options.releaseAt, when));
         }
     }
 
-    // ========================================================================
-    // Internal Methods
-    // ========================================================================
+    /**
+     * Releases every voice playing the given pad using its release time.
+     */
+    stopPad(padId: string) {
+        this.voices.forEach(voice => {
+            if (voice.isActive && voice.padId === padId) {
+                voice.release(voice.params.release || 0.01);
+            }
+        });
+    }
 
     /**
-     * Internal method to initialize and start the audio worklet.
-     * Handles WASM loading, node connection, and parameter scheduling.
+     * Whether the pad has a voice still looping (and not yet released).
      */
-    private async _startPlayback(cuePoint: number, duration: number, params: PadParams) {
-        if (!this.audioBuffer || !this.audioContext) return;
+    isPadLooping(padId: string): boolean {
+        return this.voices.some(voice => voice.isActive && !voice.isReleasing && voice.isLooping && voice.padId === padId);
+    }
 
-        try {
-            await this.initAudioWorklet();
-            if (!this.wasmBytes) {
-                console.error("WASM bytes not loaded");
-                return;
+    /**
+     * Lets the pad's sustain loops play on to the end of their slices.
+     * Other loop modes keep looping until the pad is stopped.
+     */
+    releaseLoop(padId: string) {
+        this.voices.forEach(voice => {
+            if (voice.isActive && voice.padId === padId) {
+                voice.exitLoop();
             }
+        });
+    }
 
-            // Resume context if needed
-            if (this.audioContext.state === 'suspended') {
-                await this.audioContext.resume();
+    /**
+     * Releases every voice in a choke group using each voice's own release time.
+     * @param exceptPadId Pad whose voices are left alone (usually the one being triggered)
+     * @param when Audio clock time to release them at (defaults to now)
+     */
+    releaseGroup(group: number, exceptPadId: string | null = null, when?: number) {
+        this.voices.forEach(voice => {
+            if (voice.isActive && voice.chokeGroup === group && voice.padId !== exceptPadId) {
+                voice.release(voice.params.release || 0.01, when);
             }
+        });
+    }
 
-            // Create AudioWorkletNode if not exists
-            if (!this.workletNode) {
-                this.workletNode = new AudioWorkletNode(this.audioContext, 'rubberband-processor');
-
-                // Initialize Worklet with WASM
-                this.workletNode.port.postMessage({
-                    type: 'init',
-                    wasmBytes: this.wasmBytes,
-                    sampleRate: this.audioContext.sampleRate
-                });
-
-                // Wait for ready
-                await new Promise<void>((resolve) => {
-                    if (!this.workletNode) return resolve();
-                    const handler = (event: MessageEvent) => {
-                        if (event.data.type === 'ready') {
-                            this.workletNode?.port.removeEventListener('message', handler);
-                            resolve();
-                        }
-                    };
-                    this.workletNode.port.onmessage = (event) => {
-                        if (event.data.type === 'ready') {
-                            handler(event);
-                        } else if (event.data.type === 'complete') {
-                            this.state.isPlaying = false;
-                            this._stopPlayback();
-                            if (this._onStop) this._onStop();
-                        }
-                    };
-                });
-
-                // If we just created the node, we need to send the buffer if we have it
-                if (this.audioBuffer) {
-                    const left = this.audioBuffer.getChannelData(0);
-                    const right = this.audioBuffer.numberOfChannels > 1 ? this.audioBuffer.getChannelData(1) : null;
-                    this.workletNode.port.postMessage({
-                        type: 'load',
-                        left: left,
-                        right: right
-                    });
-                }
+    /**
+     * Cuts off every voice in a mute group, ignoring their release times.
+     * @param exceptPadId Pad whose voices are left alone (usually the one being triggered)
+     * @param when Audio clock time to cut them at (defaults to now)
+     */
+    muteGroup(group: number, exceptPadId: string | null = null, when?: number) {
+        this.voices.forEach(voice => {
+            if (voice.isActive && voice.muteGroup === group && voice.padId !== exceptPadId) {
+                voice.release(MUTE_GROUP_FADE_TIME, when);
             }
+        });
+    }
 
-            // Create Envelope Gain Node
-            if (!this.envelopeGain) {
-                this.envelopeGain = this.audioContext.createGain();
-                this.envelopeGain.connect(this.masterGain!); // Connect to master
-            }
+    // ========================================================================
+    // Mixer
+    // ========================================================================
+
+    /**
+     * Sets every pad's gain, pan, mute and solo.
+     * Soloing a pad silences the pads that aren't soloed.
+     */
+    setPadMixes(mixes: Record<string, PadMix>) {
+        this.padMixes = { ...mixes };
+        this.strips.forEach((_, padId) => this.updateStrip(padId));
+    }
+
+    private getStrip(padId: string): ChannelStrip | null {
+        if (!this.audioContext || !this.masterGain) return null;
+
+        let strip = this.strips.get(padId);
+        if (!strip) {
+            strip = new ChannelStrip(this.audioContext, this.masterGain);
+            this.strips.set(padId, strip);
+            this.updateStrip(padId);
+        }
+        return strip;
+    }
+
+    private updateStrip(padId: string) {
+        const anySolo = Object.values(this.padMixes).some(mix => mix.solo);
+        const mix = this.padMixes[padId] ?? DEFAULT_PAD_MIX;
+        this.strips.get(padId)?.set(mix, isPadAudible(mix, anySolo));
+    }
+
+    // ========================================================================
+    // Metronome
+    // ========================================================================
+
+    setMetronomeVolume(val: number) {
+        if (this.metronomeGain && this.audioContext) {
+            this.metronomeGain.gain.setTargetAtTime(Math.max(0, Math.min(1, val)), this.audioContext.currentTime, 0.02);
+        }
+    }
+
+    /**
+     * Clicks along with the global transport on the beats of `grid`, accenting downbeats.
+     * Pass null to turn it off. The sequencer clicks its own steps through playClick.
+     */
+    setMetronome(grid: BeatGrid | null) {
+        this.metronomeGrid = grid;
+        this.updateMetronomeTimer();
+    }
+
+    /**
+     * Plays a metronome click at the given audio clock time, higher and louder on accented beats.
+     * Clicks bypass the voice pool, so they never steal a pad's voice.
+     */
+    playClick(when: number, accent: boolean) {
+        if (!this.audioContext || !this.metronomeGain) return;
+
+        const start = Math.max(when, this.audioContext.currentTime);
+        const oscillator = this.audioContext.createOscillator();
+        const envelope = this.audioContext.createGain();
+        oscillator.frequency.value = accent ? CLICK_ACCENT_FREQUENCY : CLICK_FREQUENCY;
+        envelope.gain.setValueAtTime(0, start);
+        envelope.gain.linearRampToValueAtTime(accent ? CLICK_ACCENT_LEVEL : CLICK_LEVEL, start + 0.001);
+        envelope.gain.exponentialRampToValueAtTime(0.001, start + CLICK_LENGTH);
+
+        oscillator.connect(envelope).connect(this.metronomeGain);
+        oscillator.onended = () => envelope.disconnect();
+        oscillator.start(start);
+        oscillator.stop(start + CLICK_LENGTH);
+    }
+
+    /**
+     * Runs the click timer only while the metronome is on and the transport plays.
+     */
+    private updateMetronomeTimer() {
+        const shouldRun = this.metronomeGrid !== null && this.isGlobalPlaying;
+        if (shouldRun && this.metronomeTimer === null) {
+            this.metronomeTimer = setInterval(() => this.scheduleTransportClicks(), SEQUENCER_TICK_MS);
+        } else if (!shouldRun && this.metronomeTimer !== null) {
+            clearInterval(this.metronomeTimer);
+            this.metronomeTimer = null;
+            this.lastClickBeat = null;
+        }
+    }
+
+    /**
+     * Schedules clicks for the beats the transport reaches within the lookahead.
+     * Beats are counted in track time and mapped to the audio clock through the global speed.
+     */
+    private scheduleTransportClicks() {
+        const grid = this.metronomeGrid;
+        if (!grid || !this.audioContext || !this.transportVoice?.isActive) {
+            this.lastClickBeat = null;
+            return;
+        }
+
+        const now = this.audioContext.currentTime;
+        const position = this.transportVoice.advance(now, this.globalSpeed);
+        const beatLength = 60 / grid.bpm;
+        const nextBeat = Math.ceil((position - grid.offset) / beatLength);
+        const lastBeat = Math.floor((position + SEQUENCER_LOOKAHEAD_SECONDS * this.globalSpeed - grid.offset) / beatLength);
+
+        // Starting, or the transport jumped: count from here
+        if (this.lastClickBeat === null || nextBeat < this.lastClickBeat || nextBeat > this.lastClickBeat + 1) {
+            this.lastClickBeat = nextBeat - 1;
+        }
+
+        for (let beat = this.lastClickBeat + 1; beat <= lastBeat; beat++) {
+            const time = now + (grid.offset + beat * beatLength - position) / this.globalSpeed;
+            const beatInBar = ((beat % grid.beatsPerBar) + grid.beatsPerBar) % grid.beatsPerBar;
+            this.playClick(time, beatInBar === 0);
+            this.lastClickBeat = beat;
+        }
+    }
+
+    // ========================================================================
+    // Offline Rendering
+    // ========================================================================
+
+    /**
+     * Renders a pad's slice to a new buffer, faster than real time.
+     * Uses the pad's speed, pitch, reverse and envelope plus the global key and tempo (and its gain and pan with `options.mix`),
+     * with the release fading out the end of the slice. Loops are not rendered.
+     * @throws Error if no audio is loaded or the pad has nothing to render
+     */
+    async renderPad(cuePoint: number, params: PadParams, options: PadRenderOptions = {}): Promise<AudioBuffer> {
+        const buffer = this.audioBuffer;
+        if (!buffer) throw new Error('No audio loaded');
+
+        const slice = this.getSlice(cuePoint, options.endPoint ?? null, params.reverse);
+        const { duration } = slice;
+        if (duration <= 0) throw new Error('Pad has nothing to render');
+
+        await this.initAudioWorklet();
+        if (!this.wasmBytes) throw new Error('Audio processor is not available');
+
+        // Only the slice is sent to the render
+        const source = this.copySlice(buffer, sliceRange(slice, params.reverse).start, duration);
+        const { sampleRate } = buffer;
+
+        const tempo = params.speed * this.globalSpeed;
+        return renderOffline({
+            source,
+            voices: [{
+                when: 0,
+                startPosition: params.reverse ? source.duration : 0,
+                duration,
+                loop: null,
+                params,
+                pitchRatio: this.getPitchRatio(params),
+                tempo,
+                mix: options.mix
+            }],
+            duration: duration / tempo,
+            sampleRate: options.sampleRate ?? undefined
+        }, this.wasmBytes);
+    }
+
+    /**
+     * Copies the part of the file a pad plays out as it is, without any processing.
+     * Reversed pads get the same part they play backwards, still facing forwards.
+     * @throws Error if no audio is loaded or the pad has nothing to copy
+     */
+    async trimPad(cuePoint: number, reverse: boolean, options: PadRenderOptions = {}): Promise<AudioBuffer> {
+        const buffer = this.audioBuffer;
+        if (!buffer) throw new Error('No audio loaded');
 
-            // Connect Worklet -> Envelope -> Master -> Destination
-            try { this.workletNode.disconnect(); } catch (e) { }
-            this.workletNode.connect(this.envelopeGain);
+        const range = padRange(cuePoint, options.endPoint ?? null, reverse, this.getDuration());
+        if (range.end <= range.start) throw new Error('Pad has nothing to copy');
 
-            // Apply Envelope
-            const now = this.audioContext.currentTime;
-            const attack = params.attack || 0.005;
-            const release = params.release || 0.01;
-            const volume = params.volume !== undefined ? params.volume : 1.0;
+        const slice = this.copySlice(buffer, range.start, range.end - range.start);
+        const targetRate = options.sampleRate ?? buffer.sampleRate;
+        return targetRate === buffer.sampleRate ? slice : resample(slice, targetRate);
+    }
 
-            this.envelopeGain.gain.cancelScheduledValues(now);
-            this.envelopeGain.gain.setValueAtTime(0, now);
-            this.envelopeGain.gain.linearRampToValueAtTime(volume, now + attack);
+    // ========================================================================
+    // Internal Methods
+    // ========================================================================
 
-            // Calculate samples
-            const sampleRate = this.audioBuffer.sampleRate;
-            const startSample = cuePoint * sampleRate;
-            const durationSamples = duration * sampleRate;
+    private copySlice(buffer: AudioBuffer, start: number, duration: number): AudioBuffer {
+        const { sampleRate } = buffer;
+        const firstFrame = Math.floor(start * sampleRate);
+        const frameCount = Math.max(1, Math.min(buffer.length - firstFrame, Math.ceil(duration * sampleRate)));
+        const slice = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length: frameCount, sampleRate });
+        for (let c = 0; c < buffer.numberOfChannels; c++) {
+            slice.copyToChannel(buffer.getChannelData(c).subarray(firstFrame, firstFrame + frameCount), c);
+        }
+        return slice;
+    }
 
-            // Send PLAY command
-            this.workletNode.port.postMessage({
-                type: 'play',
-                startSample: startSample,
-                durationSamples: durationSamples,
-                reverse: params.reverse
-            });
+    private getSlice(cuePoint: number, endPoint: number | null, reverse: boolean): Slice {
+        return getSlice(cuePoint, endPoint, reverse, this.getDuration());
+    }
 
-            // Set parameters
-            const totalPitch = params.pitch + this.globalPitchOffset;
-            const pitchRatio = totalPitch === 0 ? 1.0 : Math.pow(2, totalPitch / 12);
-            const tempo = params.speed * this.globalSpeed;
+    private activeVoices(): Voice[] {
+        const voices = this.voices.filter(voice => voice.isActive);
+        if (this.transportVoice?.isActive) voices.push(this.transportVoice);
+        return voices;
+    }
 
-            const tempoParam = this.workletNode.parameters.get('tempo');
-            const pitchParam = this.workletNode.parameters.get('pitch');
+    private getPitchRatio(params: PadParams): number {
+        const totalPitch = params.pitch + this.globalPitchOffset;
+        return totalPitch === 0 ? 1.0 : Math.pow(2, totalPitch / 12);
+    }
 
-            if (tempoParam) tempoParam.value = tempo;
-            if (pitchParam) pitchParam.value = pitchRatio;
+    private createVoice(): Voice | null {
+        if (!this.audioContext || !this.masterGain || !this.wasmBytes) return null;
 
-            this.state.startTime = this.audioContext.currentTime;
-            this.state.duration = duration;
-            this.state.isPlaying = true;
+        const voice = new Voice(this.audioContext, this.masterGain, this.wasmBytes);
+        voice.onEnded = (ended, reason) => this.handleVoiceEnded(ended, reason);
+        return voice;
+    }
 
-            // No polling started here anymore!
+    private getTransportVoice(): Voice | null {
+        if (!this.transportVoice) {
+            this.transportVoice = this.createVoice();
+        }
+        return this.transportVoice;
+    }
 
+    /**
+     * Picks a voice for a new pad trigger: an idle one, a new one while
+     * the pool is below its limit, or else the oldest sounding voice.
+     */
+    private acquireVoice(): Voice | null {
+        const idle = this.voices.find(voice => !voice.isActive);
+        if (idle) return idle;
+
+        if (this.voices.length < this.maxVoices) {
+            const voice = this.createVoice();
+            if (voice) this.voices.push(voice);
+            return voice;
+        }
+
+        return this.voices.reduce((oldest, voice) => voice.startTime < oldest.startTime ? voice : oldest);
+    }
+
+    /**
+     * Waits for the worklet and audio source, then picks a voice synchronously
+     * so concurrent triggers never claim the same one.
+     */
+    private async _prepareVoice(pick: () => Voice | null): Promise<Voice | null> {
+        try {
+            await this.initAudioWorklet();
+            if (!this.wasmBytes) {
+                console.error("WASM bytes not loaded");
+                return null;
+            }
+            await this.sourcePromise;
+            return pick();
         } catch (error) {
             console.error('[AudioEngine] Error starting playback:', error);
-            this.state.isPlaying = false;
+            return null;
         }
     }
 
+    private _startVoice(voice: Voice, playback: VoicePlayback, params: PadParams, when?: number) {
+        if (!this.audioBuffer || !this.audioContext || !this.masterGain) return;
+
+        // Pads play through their channel strip, the transport straight into the master
+        const strip = playback.padId !== null ? this.getStrip(playback.padId) : null;
+        voice.setOutput(strip?.input ?? this.masterGain);
+
+        voice.start({
+            ...playback,
+            params,
+            sampleRate: this.audioBuffer.sampleRate,
+            pitchRatio: this.getPitchRatio(params),
+            tempo: params.speed * this.globalSpeed,
+            when: when ?? this.audioContext.currentTime
+        });
+    }
+
+    private stopAllVoices() {
+        this.transportVoice?.stop();
+        this.voices.forEach(voice => voice.stop());
+    }
+
+    private handleVoiceEnded(voice: Voice, reason: VoiceEndReason) {
+        if (voice === this.transportVoice) {
+            // Global playback ran to the end: rest there
+            if (reason === 'completed') {
+                this.globalOffset = Math.max(0, Math.min(this.getDuration(), voice.currentPosition));
+            }
+            this.updateMetronomeTimer();
+        } else if (voice === this.lastPadVoice) {
+            if (reason === 'completed') {
+                this.globalOffset = Math.max(0, Math.min(this.getDuration(), voice.currentPosition));
+            } else if (reason === 'released') {
+                // Return to the pad's cue point (paused)
+                this.globalOffset = voice.cuePoint;
+            }
+            this.lastPadVoice = null;
+        }
+
+        // Notify stop once nothing is sounding anymore
+        if (!this.isPlaying && this._onStop) this._onStop();
+    }
+
     // ========================================================================
     // Visualization & Data
     // ========================================================================
@@ -1,7 +1,14 @@
 import { transcodeAudioFileToWav } from './AudioTranscoder';
+import { WavMarker, readWavMarkers } from './wav';
 
 type LoadStatusCallback = (status: string) => void;
 
+/** A decoded file, with the cue markers it carried (WAV files only) */
+export interface LoadedAudio {
+    buffer: AudioBuffer;
+    markers: WavMarker[];
+}
+
 const AUDIO_FILE_EXTENSIONS = [
     '.aac',
     '.aif',
@@ -59,11 +66,11 @@ export class AudioLoader {
     }
 
     /**
-     * Loads audio from a local File object.
+     * Loads audio from a local File object, along with any cue markers in it.
      * @param file File object to load
      * @param context AudioContext to use for decoding
      */
-    static async loadFromFile(file: File, context: AudioContext, onStatus?: LoadStatusCallback): Promise<AudioBuffer> {
+    static async loadFromFile(file: File, context: AudioContext, onStatus?: LoadStatusCallback): Promise<LoadedAudio> {
         if (!this.isLikelyAudioFile(file)) {
             throw new Error('[AudioLoader] Please choose an audio file.');
         }
@@ -71,16 +78,19 @@ export class AudioLoader {
         onStatus?.('Reading audio');
         const arrayBuffer = await file.arrayBuffer();
 
+        // Read before decoding, which detaches the buffer
+        const markers = readWavMarkers(arrayBuffer);
+
         try {
             onStatus?.('Decoding audio');
-            return await context.decodeAudioData(arrayBuffer);
+            return { buffer: await context.decodeAudioData(arrayBuffer), markers };
         } catch (err) {
             console.warn('[AudioLoader] Native decode failed, transcoding with FFmpeg:', err);
 
             try {
                 const transcodedBuffer = await transcodeAudioFileToWav(file, onStatus);
                 onStatus?.('Decoding transcoded audio');
-                return await context.decodeAudioData(transcodedBuffer);
+                return { buffer: await context.decodeAudioData(transcodedBuffer), markers };
             } catch (transcodeError) {
                 console.error('[AudioLoader] Error decoding audio data:', transcodeError);
                 throw new Error('[AudioLoader] Failed to decode audio data, even after transcoding.');
@@ -0,0 +1,65 @@
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** A pad's place in the mix */
+export interface PadMix {
+    gain: number;   // In dB
+    pan: number;    // -1 (left) to 1 (right)
+    mute: boolean;
+    solo: boolean;
+}
+
+export const DEFAULT_PAD_MIX: PadMix = { gain: 0, pan: 0, mute: false, solo: false };
+
+// Time constant for level and pan changes, so moving them doesn't click
+const SMOOTHING_TIME = 0.02;
+
+// ============================================================================
+// ChannelStrip Class
+// ============================================================================
+
+/**
+ * Gain and pan for one pad: every voice playing the pad goes through its strip.
+ * Mute and solo depend on the other pads too, so the engine says whether the strip is heard.
+ */
+export class ChannelStrip {
+    readonly input: GainNode;
+    private panner: StereoPannerNode;
+    private context: BaseAudioContext;
+
+    constructor(context: BaseAudioContext, destination: AudioNode) {
+        this.context = context;
+        this.input = context.createGain();
+        this.panner = context.createStereoPanner();
+
+        // Voices -> Gain -> Pan -> Destination
+        this.input.connect(this.panner);
+        this.panner.connect(destination);
+    }
+
+    /**
+     * @param isAudible False when the pad is muted, or another pad is soloed
+     */
+    set(mix: PadMix, isAudible: boolean) {
+        const now = this.context.currentTime;
+        const gain = isAudible ? Math.pow(10, mix.gain / 20) : 0;
+        this.input.gain.setTargetAtTime(gain, now, SMOOTHING_TIME);
+        this.panner.pan.setTargetAtTime(Math.max(-1, Math.min(1, mix.pan)), now, SMOOTHING_TIME);
+    }
+
+    /**
+     * Sets the mix straight away, for offline renders that start at time 0.
+     */
+    setImmediate(mix: PadMix) {
+        this.input.gain.value = Math.pow(10, mix.gain / 20);
+        this.panner.pan.value = Math.max(-1, Math.min(1, mix.pan));
+    }
+}
+
+/**
+ * Whether a pad is heard: not muted, and soloed if any pad is.
+ */
+export function isPadAudible(mix: PadMix, anySolo: boolean): boolean {
+    return !mix.mute && (!anySolo || mix.solo);
+}
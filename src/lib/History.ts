@@ -0,0 +1,108 @@
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * An undoable change. Commands are pushed after they have been applied.
+ * Consecutive commands with the same `coalesceKey` pushed during one gesture
+ * (a knob turn, a flag drag) merge into one step.
+ */
+export interface Command {
+    label: string;
+    coalesceKey?: string;
+    undo: () => void;
+    redo: () => void;
+}
+
+// Oldest steps are dropped beyond this
+const MAX_HISTORY = 200;
+
+// ============================================================================
+// History Class
+// ============================================================================
+
+/**
+ * Undo/redo stacks of commands.
+ * Gestures are marked with `beginGesture` and `endGesture`; outside of one, every command is its own step.
+ */
+export class History {
+    private undoStack: Command[] = [];
+    private redoStack: Command[] = [];
+    private gestureCount: number = 0;
+    private gesture: number | null = null;      // Gesture in progress
+    private topGesture: number | null = null;   // Gesture the top command was pushed in
+
+    // Called whenever the stacks change
+    onChange: (() => void) | null = null;
+
+    /**
+     * Starts a gesture, ending the one in progress if any.
+     */
+    beginGesture() {
+        this.gesture = ++this.gestureCount;
+    }
+
+    endGesture() {
+        this.gesture = null;
+    }
+
+    push(command: Command) {
+        const top = this.undoStack[this.undoStack.length - 1];
+
+        if (top && command.coalesceKey && top.coalesceKey === command.coalesceKey
+            && this.gesture !== null && this.topGesture === this.gesture) {
+            // Same gesture: keep the original undo, take the latest redo
+            this.undoStack[this.undoStack.length - 1] = { ...command, undo: top.undo };
+        } else {
+            this.undoStack.push(command);
+            if (this.undoStack.length > MAX_HISTORY) {
+                this.undoStack.shift();
+            }
+        }
+
+        this.redoStack = [];
+        this.topGesture = this.gesture;
+        this.onChange?.();
+    }
+
+    undo() {
+        const command = this.undoStack.pop();
+        if (!command) return;
+        command.undo();
+        this.redoStack.push(command);
+        this.topGesture = null; // Whatever comes next is a new step
+        this.onChange?.();
+    }
+
+    redo() {
+        const command = this.redoStack.pop();
+        if (!command) return;
+        command.redo();
+        this.undoStack.push(command);
+        this.topGesture = null;
+        this.onChange?.();
+    }
+
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.topGesture = null;
+        this.onChange?.();
+    }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    get undoLabel(): string | null {
+        return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+    }
+
+    get redoLabel(): string | null {
+        return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+    }
+}
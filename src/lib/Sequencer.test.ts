@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Sequencer } from './Sequencer';
+import { SEQUENCER_START_DELAY_SECONDS, SEQUENCER_TICK_MS } from '../config/constants';
+
+// At 120 BPM a 16th lasts 0.125s
+const STEP = 0.125;
+
+describe('Sequencer.positionAt', () => {
+    let now: number;
+    let sequencer: Sequencer;
+
+    // Moves the audio clock and lets the timer catch up
+    const advance = (seconds: number) => {
+        now += seconds;
+        vi.advanceTimersByTime(SEQUENCER_TICK_MS);
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        now = 0;
+        sequencer = new Sequencer(() => now);
+        sequencer.setTempo(120);
+        sequencer.setLength(16);
+    });
+
+    afterEach(() => {
+        sequencer.stop();
+        vi.useRealTimers();
+    });
+
+    it('counts steps and fractions from the first step', () => {
+        sequencer.start();
+        const first = SEQUENCER_START_DELAY_SECONDS;
+
+        expect(sequencer.positionAt(first)).toEqual({ step: 0, index: 0 });
+        expect(sequencer.positionAt(first + STEP / 2).step).toBeCloseTo(0.5);
+        for (let i = 0; i < 4; i++) {
+            advance(STEP);
+        }
+        expect(sequencer.positionAt(first + 3.25 * STEP).step).toBeCloseTo(3.25);
+    });
+
+    it('is negative before the first step', () => {
+        sequencer.start(1);
+        expect(sequencer.positionAt(1 - STEP / 2).step).toBeCloseTo(-0.5);
+    });
+
+    it('restarts the step at the top of the pattern but keeps counting the index', () => {
+        sequencer.setLength(4);
+        sequencer.start();
+        const first = SEQUENCER_START_DELAY_SECONDS;
+        for (let i = 0; i < 8; i++) {
+            advance(STEP);
+        }
+
+        const lastStep = sequencer.positionAt(first + 7.5 * STEP);
+        expect(lastStep.step).toBeCloseTo(3.5);
+        expect(lastStep.index).toBeCloseTo(7.5);
+
+        const nextBar = sequencer.positionAt(first + 8.25 * STEP);
+        expect(nextBar.step).toBeCloseTo(0.25);
+        expect(nextBar.index).toBeCloseTo(8.25);
+    });
+});
@@ -0,0 +1,146 @@
+import { stepDuration } from './pattern';
+import {
+    DEFAULT_SEQUENCER_BPM, SEQUENCER_LOOKAHEAD_SECONDS, SEQUENCER_START_DELAY_SECONDS, SEQUENCER_TICK_MS
+} from '../config/constants';
+
+// A scheduled step, kept until it has been heard so the UI can follow along
+interface ScheduledStep {
+    step: number;
+    index: number;  // Steps since the sequencer started
+    time: number;
+}
+
+// ============================================================================
+// Sequencer Class
+// ============================================================================
+
+/**
+ * Step clock for the pattern sequencer.
+ * A timer wakes up every SEQUENCER_TICK_MS and hands out every step that falls within
+ * the next SEQUENCER_LOOKAHEAD_SECONDS, with its exact time on the audio clock.
+ * The timer only needs to be roughly on time; the audio is scheduled sample-accurately.
+ */
+export class Sequencer {
+    private clock: () => number;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private bpm: number = DEFAULT_SEQUENCER_BPM;
+    private length: number = 16;
+    private nextStep: number = 0;
+    private nextStepIndex: number = 0;
+    private nextStepTime: number = 0;
+    private scheduled: ScheduledStep[] = [];
+
+    // Called for each step ahead of time, with the audio clock time it should sound at
+    // and how many steps were handed out before it
+    onStep: ((step: number, time: number, index: number) => void) | null = null;
+
+    /**
+     * @param clock Returns the current time of the audio clock
+     */
+    constructor(clock: () => number) {
+        this.clock = clock;
+    }
+
+    setTempo(bpm: number) {
+        this.bpm = Math.max(1, bpm);
+    }
+
+    setLength(length: number) {
+        this.length = Math.max(1, length);
+        if (this.nextStep >= this.length) {
+            this.nextStep = 0;
+        }
+    }
+
+    /**
+     * @param at Audio clock time of the first step (defaults to right away)
+     */
+    start(at?: number) {
+        if (this.timer !== null) return;
+
+        this.nextStep = 0;
+        this.nextStepIndex = 0;
+        this.nextStepTime = Math.max(at ?? 0, this.clock() + SEQUENCER_START_DELAY_SECONDS);
+        this.scheduled = [];
+        this.timer = setInterval(() => this.tick(), SEQUENCER_TICK_MS);
+        this.tick();
+    }
+
+    stop() {
+        if (this.timer !== null) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.scheduled = [];
+    }
+
+    get isRunning(): boolean {
+        return this.timer !== null;
+    }
+
+    /** Length of one step at the current tempo, in seconds */
+    get stepLength(): number {
+        return stepDuration(this.bpm);
+    }
+
+    /** Steps handed out to `onStep` since the sequencer started */
+    get scheduledSteps(): number {
+        return this.nextStepIndex;
+    }
+
+    /**
+     * Where the sequencer is at audio clock time `time`, including the fraction of the step that had passed:
+     * `step` counts from the start of the pattern (not wrapped around), `index` from when the sequencer started.
+     * Both are negative before the first step.
+     */
+    positionAt(time: number): { step: number; index: number } {
+        let reference: ScheduledStep = this.scheduled[0] ?? { step: this.nextStep, index: this.nextStepIndex, time: this.nextStepTime };
+        for (const scheduled of this.scheduled) {
+            if (scheduled.time > time) break;
+            reference = scheduled;
+        }
+        const fraction = (time - reference.time) / stepDuration(this.bpm);
+        return { step: reference.step + fraction, index: reference.index + fraction };
+    }
+
+    /**
+     * The step being heard at `now`, or null before the first step (or when stopped).
+     */
+    currentStep(now: number): number | null {
+        let current: number | null = null;
+        for (const scheduled of this.scheduled) {
+            if (scheduled.time > now) break;
+            current = scheduled.step;
+        }
+        return current;
+    }
+
+    private tick() {
+        const now = this.clock();
+        const horizon = now + SEQUENCER_LOOKAHEAD_SECONDS;
+
+        // After a stall (like a background tab), skip the missed steps instead of playing them all at once
+        while (this.nextStepTime < now) {
+            this.advance();
+        }
+
+        while (this.nextStepTime < horizon) {
+            this.onStep?.(this.nextStep, this.nextStepTime, this.nextStepIndex);
+            this.scheduled.push({ step: this.nextStep, index: this.nextStepIndex, time: this.nextStepTime });
+            this.advance();
+        }
+
+        // Keep the step being heard, drop the ones before it
+        const heard = this.scheduled.findIndex(scheduled => scheduled.time > now) - 1;
+        if (heard > 0) {
+            this.scheduled.splice(0, heard);
+        }
+    }
+
+    private advance() {
+        // The tempo is read per step, so tempo changes apply from the next step
+        this.nextStepTime += stepDuration(this.bpm);
+        this.nextStep = (this.nextStep + 1) % this.length;
+        this.nextStepIndex++;
+    }
+}
@@ -0,0 +1,35 @@
+import { TAP_TEMPO_MAX_TAPS, TAP_TEMPO_RESET_MS } from '../config/constants';
+
+// ============================================================================
+// TapTempo Class
+// ============================================================================
+
+/**
+ * Works out a tempo from taps.
+ * The tempo is the average gap over the last TAP_TEMPO_MAX_TAPS taps, so a single
+ * sloppy tap doesn't throw it off; pausing for TAP_TEMPO_RESET_MS starts over.
+ */
+export class TapTempo {
+    private taps: number[] = [];
+
+    /**
+     * Records a tap.
+     * @param time Time of the tap in ms
+     * @returns The tapped BPM, or null until there are two taps
+     */
+    tap(time: number): number | null {
+        const last = this.taps[this.taps.length - 1];
+        if (last !== undefined && (time - last > TAP_TEMPO_RESET_MS || time <= last)) {
+            this.taps = [];
+        }
+
+        this.taps.push(time);
+        if (this.taps.length > TAP_TEMPO_MAX_TAPS) {
+            this.taps.shift();
+        }
+
+        if (this.taps.length < 2) return null;
+        const averageGap = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+        return 60000 / averageGap;
+    }
+}
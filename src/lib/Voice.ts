@@ -0,0 +1,456 @@
+import type { EnvelopeCurve, FilterType, LoopRegion, PadParams } from './AudioEngine';
+import {
+    ENVELOPE_TIME_CONSTANTS, FILTER_ENVELOPE_OCTAVES, FILTER_MAX_RESONANCE_DB, FILTER_MIN_HZ, FILTER_OPEN_HZ, MIN_RELEASE_TIMEOUT_MS
+} from '../config/constants';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** Why a voice stopped sounding */
+export type VoiceEndReason = 'completed' | 'released' | 'stopped';
+
+export interface VoiceStartOptions {
+    padId: string | null;
+    chokeGroup: number | null;
+    muteGroup: number | null;
+    cuePoint: number;       // The pad's cue point (start of its slice)
+    startPosition: number;  // Where in the audio file playback starts (slice end when reversed)
+    duration: number;       // How long to play (in original time)
+    loop: LoopRegion | null; // Loop points (in original time), if the pad loops
+    params: PadParams;
+    sampleRate: number;     // Sample rate of the loaded audio buffer
+    pitchRatio: number;     // Total pitch ratio (pad + global)
+    tempo: number;          // Total tempo (pad speed * global speed)
+    when: number;           // AudioContext time to start at
+    skipStartDelay?: boolean; // Drop Rubber Band's start delay so the output lines up with `when` (offline renders)
+}
+
+/** Fade applied when a sounding voice is stolen or retriggered, to avoid clicks */
+const STEAL_FADE_TIME = 0.005;
+
+// Lowpass and highpass resonance in dB: flat (Butterworth) at 0, peaking at full resonance
+const FLAT_RESONANCE_DB = -3.01;
+
+// Bandpass width: wide at 0 resonance, narrow at full
+const BANDPASS_Q_MIN = 0.5;
+const BANDPASS_Q_MAX = 20;
+
+/**
+ * Biquad Q for a resonance (0-1). Lowpass and highpass Q is in dB, bandpass Q is a ratio.
+ */
+function filterQ(type: FilterType, resonance: number): number {
+    const amount = Math.max(0, Math.min(1, resonance));
+    if (type === 'bandpass') {
+        return BANDPASS_Q_MIN * Math.pow(BANDPASS_Q_MAX / BANDPASS_Q_MIN, amount);
+    }
+    return FLAT_RESONANCE_DB + amount * (FILTER_MAX_RESONANCE_DB - FLAT_RESONANCE_DB);
+}
+
+// ============================================================================
+// Voice Class
+// ============================================================================
+
+/**
+ * A single playback voice.
+ * Owns one Rubberband worklet node (with its own stretcher state and playhead),
+ * its own multimode filter and its own ADSR envelope gain. Voices are pooled and re-used by the AudioEngine.
+ */
+export class Voice {
+    readonly node: AudioWorkletNode;
+    readonly filter: BiquadFilterNode;
+    readonly envelope: GainNode;
+    readonly ready: Promise<void>;
+
+    // Playback state
+    padId: string | null = null;
+    chokeGroup: number | null = null;
+    muteGroup: number | null = null;
+    cuePoint: number = 0;
+    startPosition: number = 0;
+    duration: number = 0;
+    startTime: number = 0;
+    loop: LoopRegion | null = null;
+    isLooping: boolean = false;
+    params: PadParams = {
+        speed: 1.0, pitch: 0, reverse: false, attack: 0, decay: 0, sustain: 1, release: 0.1, envelopeCurve: 'linear', volume: 1.0,
+        filterType: 'lowpass', cutoff: FILTER_OPEN_HZ, resonance: 0, filterEnvelope: 0
+    };
+    isActive: boolean = false;
+    isReleasing: boolean = false;
+
+    // Called once the voice has gone silent
+    onEnded: ((voice: Voice, reason: VoiceEndReason) => void) | null = null;
+
+    private context: BaseAudioContext;
+    private output: AudioNode;
+    private cutoffBase: number = FILTER_OPEN_HZ;   // Cutoff before the attack and after the release
+    private cutoffPeak: number = FILTER_OPEN_HZ;   // Cutoff the attack moves to
+    private playbackId: number = 0;
+    private position: number = 0;
+    private direction: number = 1;
+    private lastUpdateTime: number = 0;
+    private releaseTimer: ReturnType<typeof setTimeout> | null = null;
+    private loadResolvers: (() => void)[] = [];
+    private scheduleResolvers = new Map<number, () => void>();
+
+    constructor(context: BaseAudioContext, destination: AudioNode, wasmBytes: ArrayBuffer) {
+        this.context = context;
+        this.output = destination;
+        this.node = new AudioWorkletNode(context, 'rubberband-processor', { outputChannelCount: [2] });
+        this.filter = context.createBiquadFilter();
+        this.filter.type = 'lowpass';
+        this.filter.frequency.value = FILTER_OPEN_HZ;
+        this.filter.Q.value = filterQ('lowpass', 0);
+        this.envelope = context.createGain();
+        this.envelope.gain.value = 0;
+
+        // Worklet -> Filter -> Envelope -> Destination
+        this.node.connect(this.filter);
+        this.filter.connect(this.envelope);
+        this.envelope.connect(destination);
+
+        this.ready = new Promise<void>((resolve) => {
+            this.node.port.onmessage = (event: MessageEvent) => {
+                const { type } = event.data;
+                if (type === 'ready') {
+                    resolve();
+                } else if (type === 'loaded') {
+                    this.loadResolvers.splice(0).forEach(done => done());
+                } else if (type === 'scheduled') {
+                    this.scheduleResolvers.get(event.data.playbackId)?.();
+                    this.scheduleResolvers.delete(event.data.playbackId);
+                } else if (type === 'complete') {
+                    // Ignore completions from a playback this voice has since replaced
+                    if (this.isActive && event.data.playbackId === this.playbackId) {
+                        this.finish('completed');
+                    }
+                }
+            };
+        });
+
+        this.node.port.postMessage({
+            type: 'init',
+            wasmBytes: wasmBytes,
+            sampleRate: context.sampleRate
+        });
+    }
+
+    /**
+     * Sends the audio to the worklet scope.
+     * The source is shared by every voice in the same context, so this only
+     * needs to go through one voice. Resolves once the worklet has stored it.
+     */
+    loadSource(buffer: AudioBuffer): Promise<void> {
+        const left = buffer.getChannelData(0);
+        const right = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : null;
+
+        return new Promise<void>((resolve) => {
+            this.loadResolvers.push(resolve);
+            this.node.port.postMessage({
+                type: 'load',
+                left: left,
+                right: right
+            });
+        });
+    }
+
+    /**
+     * Starts (or restarts) playback at `options.when`.
+     * A voice that is still sounding is faded out first, so stealing it doesn't click.
+     * Resolves once the worklet has the playback, which offline renders wait for
+     * before rendering so the start is sample-exact. Live playback doesn't need to.
+     */
+    start(options: VoiceStartOptions): Promise<void> {
+        const { params } = options;
+        const now = this.context.currentTime;
+        let when = Math.max(options.when, now);
+
+        this.clearReleaseTimer();
+
+        const gain = this.envelope.gain;
+        gain.cancelScheduledValues(now);
+        if (this.isActive) {
+            gain.setValueAtTime(gain.value, now);
+            gain.linearRampToValueAtTime(0, now + STEAL_FADE_TIME);
+            when = Math.max(when, now + STEAL_FADE_TIME);
+        } else {
+            gain.setValueAtTime(0, now);
+        }
+
+        // Apply Envelope: up to the volume over the attack, down to the sustain level over the decay,
+        // then held there until the voice is released (or its slice ends)
+        const attack = params.attack || 0.005;
+        const decay = params.decay || 0.005;
+        const volume = params.volume !== undefined ? params.volume : 1.0;
+        gain.setValueAtTime(0, when);
+        this.rampParam(gain, volume, when, attack, params.envelopeCurve);
+        if (params.sustain < 1) {
+            this.rampParam(gain, volume * Math.max(0, params.sustain), when + attack, decay, params.envelopeCurve);
+        }
+
+        // The filter envelope moves the cutoff over the attack, the release brings it back
+        this.cutoffBase = this.clampCutoff(params.cutoff);
+        this.cutoffPeak = this.clampCutoff(this.cutoffBase * Math.pow(2, params.filterEnvelope * FILTER_ENVELOPE_OCTAVES));
+        this.filter.type = params.filterType;
+        const frequency = this.filter.frequency;
+        const q = this.filter.Q;
+        frequency.cancelScheduledValues(now);
+        q.cancelScheduledValues(now);
+
+        // Set parameters at the start time so a stolen voice keeps its old pitch and tone until then
+        q.setValueAtTime(filterQ(params.filterType, params.resonance), when);
+        frequency.setValueAtTime(this.cutoffBase, when);
+        if (this.cutoffPeak !== this.cutoffBase) {
+            frequency.exponentialRampToValueAtTime(this.cutoffPeak, when + attack);
+        }
+
+        const tempoParam = this.node.parameters.get('tempo');
+        const pitchParam = this.node.parameters.get('pitch');
+        if (tempoParam) {
+            tempoParam.cancelScheduledValues(now);
+            tempoParam.setValueAtTime(options.tempo, when);
+        }
+        if (pitchParam) {
+            pitchParam.cancelScheduledValues(now);
+            pitchParam.setValueAtTime(options.pitchRatio, when);
+        }
+
+        this.playbackId++;
+        const scheduled = new Promise<void>((resolve) => {
+            this.scheduleResolvers.set(this.playbackId, resolve);
+        });
+        this.node.port.postMessage({
+            type: 'play',
+            playbackId: this.playbackId,
+            startTime: when,
+            startSample: options.startPosition * options.sampleRate,
+            durationSamples: options.duration * options.sampleRate,
+            reverse: params.reverse,
+            skipStartDelay: options.skipStartDelay ?? false,
+            loop: options.loop && {
+                mode: options.loop.mode,
+                startSample: options.loop.start * options.sampleRate,
+                endSample: options.loop.end * options.sampleRate
+            }
+        });
+
+        this.padId = options.padId;
+        this.chokeGroup = options.chokeGroup;
+        this.muteGroup = options.muteGroup;
+        this.cuePoint = options.cuePoint;
+        this.startPosition = options.startPosition;
+        this.duration = options.duration;
+        this.loop = options.loop;
+        this.isLooping = options.loop !== null && options.loop.mode !== 'off';
+        this.params = { ...params };
+        this.startTime = when;
+        this.position = options.startPosition;
+        this.direction = params.reverse ? -1 : 1;
+        this.lastUpdateTime = 0;
+        this.isActive = true;
+        this.isReleasing = false;
+
+        return scheduled;
+    }
+
+    /**
+     * Sends the voice to another destination, like the channel strip of the pad it's about to play.
+     */
+    setOutput(destination: AudioNode) {
+        if (destination === this.output) return;
+        this.envelope.disconnect();
+        this.envelope.connect(destination);
+        this.output = destination;
+    }
+
+    /**
+     * Fades the voice out over `releaseTime` seconds, then stops it.
+     * @param when Audio clock time to start the fade at (defaults to now)
+     */
+    release(releaseTime: number, when?: number) {
+        if (!this.isActive || this.isReleasing) return;
+        this.isReleasing = true;
+
+        const now = this.context.currentTime;
+        const at = Math.max(when ?? now, now);
+        const gain = this.envelope.gain;
+        this.holdParam(gain, at, now);
+        this.rampParam(gain, 0, at, releaseTime, this.params.envelopeCurve);
+
+        if (this.cutoffPeak !== this.cutoffBase) {
+            const frequency = this.filter.frequency;
+            this.holdParam(frequency, at, now);
+            frequency.exponentialRampToValueAtTime(this.cutoffBase, at + releaseTime);
+        }
+
+        // Stop worklet after release completes (add 5ms buffer)
+        const timeoutMs = Math.max(MIN_RELEASE_TIMEOUT_MS, (at - now + releaseTime) * 1000 + 5);
+        this.releaseTimer = setTimeout(() => {
+            this.releaseTimer = null;
+            this.finish('released');
+        }, timeoutMs);
+    }
+
+    /**
+     * Schedules a fade to silence that ends at `endTime`, from wherever the envelope is by then.
+     * Used by offline renders, where nothing releases the voice.
+     * The fade starts after the attack, so the attack must end by `endTime`.
+     */
+    fadeOutAt(endTime: number, releaseTime: number) {
+        const gain = this.envelope.gain;
+        const attackEnd = this.startTime + (this.params.attack || 0.005);
+        const fadeStart = Math.max(attackEnd, endTime - releaseTime);
+        this.holdParam(gain, fadeStart, this.context.currentTime);
+        this.rampParam(gain, 0, fadeStart, endTime - fadeStart, this.params.envelopeCurve);
+
+        if (this.cutoffPeak !== this.cutoffBase) {
+            const frequency = this.filter.frequency;
+            frequency.setValueAtTime(this.cutoffPeak, fadeStart);
+            frequency.exponentialRampToValueAtTime(this.cutoffBase, endTime);
+        }
+    }
+
+    /**
+     * Stops the voice immediately.
+     */
+    stop() {
+        if (!this.isActive) return;
+        this.finish('stopped');
+    }
+
+    /**
+     * Lets a sustain loop play on past its loop end, to the end of the slice.
+     */
+    exitLoop() {
+        if (!this.isActive || !this.isLooping || this.loop?.mode !== 'sustain') return;
+        this.isLooping = false;
+        this.node.port.postMessage({ type: 'exitLoop' });
+    }
+
+    setPitchRatio(pitchRatio: number) {
+        const pitchParam = this.node.parameters.get('pitch');
+        if (pitchParam) {
+            pitchParam.setTargetAtTime(pitchRatio, this.context.currentTime, 0.02);
+        }
+    }
+
+    setTempo(tempo: number) {
+        const tempoParam = this.node.parameters.get('tempo');
+        if (tempoParam) {
+            tempoParam.setTargetAtTime(tempo, this.context.currentTime, 0.02);
+        }
+    }
+
+    /**
+     * Advances the tracked playhead to `now` and returns it.
+     * Finishes the voice once it has travelled its whole duration.
+     */
+    advance(now: number, globalSpeed: number): number {
+        if (!this.isActive) return this.position;
+
+        // Initialize on first call after playback starts
+        if (this.lastUpdateTime === 0) {
+            this.lastUpdateTime = this.startTime;
+        }
+        if (now <= this.lastUpdateTime) return this.position;
+
+        const timeDelta = now - this.lastUpdateTime;
+        this.lastUpdateTime = now;
+
+        // Calculate effective speed (pad speed * global speed)
+        const effectiveSpeed = this.params.speed * globalSpeed;
+        this.position += timeDelta * effectiveSpeed * this.direction;
+
+        // Follow the worklet around the loop
+        if (this.isLooping && this.loop) {
+            this.wrapLoop(this.loop);
+            return this.position;
+        }
+
+        // Check if playback finished
+        const endPosition = this.params.reverse
+            ? this.startPosition - this.duration
+            : this.startPosition + this.duration;
+        if ((endPosition - this.position) * this.direction <= 0.01) {
+            this.position = endPosition;
+            this.finish('completed');
+        }
+
+        return this.position;
+    }
+
+    get currentPosition(): number {
+        return this.position;
+    }
+
+    private wrapLoop(loop: LoopRegion) {
+        const { start, end } = loop;
+        const length = end - start;
+        if (length <= 0) return;
+
+        if (loop.mode === 'pingpong') {
+            // Bounce off the loop point we're heading towards, reversing direction
+            while ((this.direction > 0 && this.position > end) || (this.direction < 0 && this.position < start)) {
+                const bounce = this.direction > 0 ? end : start;
+                this.position = 2 * bounce - this.position;
+                this.direction = -this.direction;
+            }
+        } else if (this.direction > 0 && this.position >= end) {
+            this.position = start + ((this.position - start) % length);
+        } else if (this.direction < 0 && this.position < start) {
+            this.position = end - ((end - this.position) % length);
+        }
+    }
+
+    private finish(reason: VoiceEndReason) {
+        this.clearReleaseTimer();
+        this.node.port.postMessage({ type: 'stop' });
+
+        const now = this.context.currentTime;
+        this.envelope.gain.cancelScheduledValues(now);
+        this.envelope.gain.setValueAtTime(0, now);
+
+        this.isActive = false;
+        this.isReleasing = false;
+        this.onEnded?.(this, reason);
+    }
+
+    // Holds a param at whatever it will be at `at`, so a ramp can start from there.
+    // Firefox has no cancelAndHoldAtTime, so there it holds the current value instead.
+    private holdParam(param: AudioParam, at: number, now: number) {
+        if (at > now && typeof param.cancelAndHoldAtTime === 'function') {
+            param.cancelAndHoldAtTime(at);
+        } else if (at > now) {
+            param.cancelScheduledValues(at);
+            param.setValueAtTime(param.value, at);
+        } else {
+            param.cancelScheduledValues(now);
+            param.setValueAtTime(param.value, now);
+        }
+    }
+
+    /**
+     * Moves a param to `value` over `duration` from `start`, which must be the time of its last event.
+     * Exponential stages approach the value over ENVELOPE_TIME_CONSTANTS time constants, then land on it.
+     */
+    private rampParam(param: AudioParam, value: number, start: number, duration: number, curve: EnvelopeCurve) {
+        if (curve === 'exponential') {
+            param.setTargetAtTime(value, start, duration / ENVELOPE_TIME_CONSTANTS);
+            param.setValueAtTime(value, start + duration);
+        } else {
+            param.linearRampToValueAtTime(value, start + duration);
+        }
+    }
+
+    private clampCutoff(hz: number): number {
+        return Math.max(FILTER_MIN_HZ, Math.min(hz, this.context.sampleRate / 2));
+    }
+
+    private clearReleaseTimer() {
+        if (this.releaseTimer !== null) {
+            clearTimeout(this.releaseTimer);
+            this.releaseTimer = null;
+        }
+    }
+}
@@ -0,0 +1,62 @@
+import { MidiInputInfo, MidiMessage, MidiSource, parseMidiMessage } from './midi';
+
+// ============================================================================
+// WebMidiSource Class
+// ============================================================================
+
+/**
+ * MIDI from the browser's Web MIDI API.
+ * Only the selected input is listened to, so a second controller left plugged in can't play the pads.
+ */
+export class WebMidiSource implements MidiSource {
+    private access: MIDIAccess;
+    private input: MIDIInput | null = null;
+
+    onMessage: ((message: MidiMessage) => void) | null = null;
+    onInputsChange: (() => void) | null = null;
+
+    private constructor(access: MIDIAccess) {
+        this.access = access;
+        this.access.onstatechange = () => this.onInputsChange?.();
+    }
+
+    /**
+     * Asks the browser for MIDI access (which may prompt the user).
+     * @throws If the browser has no Web MIDI or access was denied
+     */
+    static async request(): Promise<WebMidiSource> {
+        if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+            throw new Error('MIDI is not supported in this browser');
+        }
+        return new WebMidiSource(await navigator.requestMIDIAccess());
+    }
+
+    getInputs(): MidiInputInfo[] {
+        return Array.from(this.access.inputs.values())
+            .filter(input => input.state === 'connected')
+            .map(input => ({ id: input.id, name: input.name ?? input.id }));
+    }
+
+    selectInput(id: string | null) {
+        if (this.input) {
+            this.input.onmidimessage = null;
+        }
+
+        this.input = id !== null ? this.access.inputs.get(id) ?? null : null;
+        if (this.input) {
+            this.input.onmidimessage = (e) => {
+                const message = e.data ? parseMidiMessage(e.data) : null;
+                if (message) {
+                    this.onMessage?.(message);
+                }
+            };
+        }
+    }
+
+    dispose() {
+        this.selectInput(null);
+        this.access.onstatechange = null;
+        this.onMessage = null;
+        this.onInputsChange = null;
+    }
+}
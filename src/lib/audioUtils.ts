@@ -1,3 +1,4 @@
+import { AUTO_CHOP_MIN_GAP_MIN_MS, AUTO_CHOP_MIN_GAP_MAX_MS, FILTER_MIN_HZ, FILTER_OPEN_HZ } from '../config/constants';
 
 /**
  * Maps a UI attack value (0-100) to engine seconds.
@@ -7,6 +8,14 @@ export const mapAttackToSeconds = (value: number): number => {
     return (value / 100) * 2;
 };
 
+/**
+ * Maps a UI decay value (0-100) to engine seconds.
+ * Assumption: 0-100 maps to 0-5 seconds, like the release.
+ */
+export const mapDecayToSeconds = (value: number): number => {
+    return (value / 100) * 5;
+};
+
 /**
  * Maps a UI release value (0-100) to engine seconds.
  * Assumption: 0-100 maps to 0-5 seconds.
@@ -15,6 +24,23 @@ export const mapReleaseToSeconds = (value: number): number => {
     return (value / 100) * 5;
 };
 
+/**
+ * Maps a UI minimum gap value (0-100) to engine seconds.
+ * Exponential, so short gaps get most of the knob's travel.
+ */
+export const mapChopGapToSeconds = (value: number): number => {
+    const ratio = AUTO_CHOP_MIN_GAP_MAX_MS / AUTO_CHOP_MIN_GAP_MIN_MS;
+    return (AUTO_CHOP_MIN_GAP_MIN_MS * Math.pow(ratio, value / 100)) / 1000;
+};
+
+/**
+ * Maps a UI filter cutoff value (0-100) to Hz.
+ * Exponential, so each octave gets the same share of the knob's travel.
+ */
+export const mapCutoffToHz = (value: number): number => {
+    return FILTER_MIN_HZ * Math.pow(FILTER_OPEN_HZ / FILTER_MIN_HZ, value / 100);
+};
+
 /**
  * Maps a UI speed value (percentage) to engine playback rate.
  * Example: 100 -> 1.0, 50 -> 0.5, 200 -> 2.0
@@ -30,3 +56,25 @@ export const formatTime = (seconds: number): string => {
     const ms = Math.round(seconds * 1000);
     return `${ms}ms`;
 };
+
+/**
+ * Formats a frequency in Hz or kHz
+ */
+export const formatFrequency = (hz: number): string => {
+    return hz >= 1000 ? `${(hz / 1000).toFixed(1)}kHz` : `${Math.round(hz)}Hz`;
+};
+
+/**
+ * Returns a reversed copy of a buffer.
+ */
+export const reverseBuffer = (buffer: AudioBuffer): AudioBuffer => {
+    const reversed = new AudioBuffer({
+        numberOfChannels: buffer.numberOfChannels,
+        length: buffer.length,
+        sampleRate: buffer.sampleRate
+    });
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        reversed.copyToChannel(buffer.getChannelData(c).slice().reverse(), c);
+    }
+    return reversed;
+};
@@ -0,0 +1,81 @@
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * Where the beats of the track fall.
+ * Beats are spaced evenly at `bpm`, starting from the downbeat at `offset`;
+ * every `beatsPerBar`-th beat from there starts a bar.
+ */
+export interface BeatGrid {
+    bpm: number;            // Tempo of the track as recorded
+    offset: number;         // Time of the first downbeat in seconds
+    beatsPerBar: number;
+}
+
+/** A grid division: every N beats or every N bars */
+export type GridUnit = 'beat' | 'bar';
+
+/** A stretch of the track in seconds */
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+// ============================================================================
+// Grid Helpers
+// ============================================================================
+
+export function beatDuration(grid: BeatGrid): number {
+    return 60 / grid.bpm;
+}
+
+export function barDuration(grid: BeatGrid): number {
+    return beatDuration(grid) * grid.beatsPerBar;
+}
+
+/**
+ * Length of one step of `count` beats or bars, in seconds.
+ */
+export function stepDuration(grid: BeatGrid, count: number, unit: GridUnit): number {
+    return count * (unit === 'bar' ? barDuration(grid) : beatDuration(grid));
+}
+
+/**
+ * Times of the grid lines spaced `step` seconds apart that fall within the range
+ * (start inclusive, end exclusive). Lines are aligned to the downbeat, also before it.
+ */
+export function gridLines(grid: BeatGrid, step: number, range: TimeRange): number[] {
+    if (step <= 0 || range.end <= range.start) return [];
+
+    const lines: number[] = [];
+    const first = Math.ceil((range.start - grid.offset) / step - 1e-6);
+    for (let i = first; ; i++) {
+        const time = grid.offset + i * step;
+        if (time >= range.end) break;
+        if (time >= 0) lines.push(time);
+    }
+    return lines;
+}
+
+/**
+ * Index of the beat at the given time, counted from the downbeat (negative before it).
+ */
+export function beatIndexAt(grid: BeatGrid, time: number): number {
+    return Math.round((time - grid.offset) / beatDuration(grid));
+}
+
+/**
+ * Time of the beat nearest to the given time.
+ */
+export function nearestBeat(grid: BeatGrid, time: number): number {
+    return grid.offset + beatIndexAt(grid, time) * beatDuration(grid);
+}
+
+/**
+ * Wraps a downbeat offset into the first bar, so it stays a small positive number.
+ */
+export function normalizeOffset(grid: BeatGrid, offset: number): number {
+    const bar = barDuration(grid);
+    return ((offset % bar) + bar) % bar;
+}
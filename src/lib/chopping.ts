@@ -0,0 +1,46 @@
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** A detected transient, as reported by the analysis worker */
+export interface Onset {
+    time: number;       // Position in seconds
+    strength: number;   // How far the onset rises above its surroundings (0-1)
+}
+
+/** The parts of a pad chopping needs to know about */
+interface ChopTarget {
+    id: string;
+    cuePoint: number | null;
+}
+
+// ============================================================================
+// Chopping Helpers
+// ============================================================================
+
+/**
+ * Picks the `count` strongest onsets and returns their times in playback order.
+ */
+export function pickStrongestOnsets(onsets: Onset[], count: number): number[] {
+    return [...onsets]
+        .sort((a, b) => b.strength - a.strength)
+        .slice(0, Math.max(0, count))
+        .map(onset => onset.time)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Pairs chop times with empty pads: the earliest time goes to the first empty pad
+ * in grid order, and so on. Times beyond the number of empty pads are dropped.
+ * @returns Cue point per pad id
+ */
+export function assignChopsToPads(pads: ChopTarget[], times: number[]): Map<string, number> {
+    const emptyPads = pads.filter(pad => pad.cuePoint === null);
+    const assignments = new Map<string, number>();
+
+    times.slice(0, emptyPads.length).forEach((time, i) => {
+        assignments.set(emptyPads[i].id, time);
+    });
+
+    return assignments;
+}
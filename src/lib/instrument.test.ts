@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { InstrumentRegion, buildDecentSampler, buildSfz } from './instrument';
+
+const region = (overrides: Partial<InstrumentRegion> = {}): InstrumentRegion => ({
+    sample: 'kick.wav',
+    reversedSample: 'kick reversed.wav',
+    note: 36,
+    attack: 0,
+    decay: 0.1,
+    sustain: 1,
+    release: 0.2,
+    reverse: false,
+    transpose: 0,
+    volume: 0,
+    pan: 0,
+    chokeGroup: null,
+    muteGroup: null,
+    filter: null,
+    ...overrides
+});
+
+const build = (regions: InstrumentRegion[]) => ({ name: 'Kit', oneShot: true, regions });
+
+describe('buildSfz', () => {
+    it('writes a region filter as a 2-pole filter', () => {
+        const sfz = buildSfz(build([region({ filter: { type: 'highpass', cutoff: 250, resonance: 0.5 } })]));
+
+        expect(sfz).toContain('fil_type=hpf_2p');
+        expect(sfz).toContain('cutoff=250');
+        expect(sfz).toContain('resonance=12');
+    });
+
+    it('leaves the filter out of regions without one', () => {
+        expect(buildSfz(build([region()]))).not.toContain('fil_type');
+    });
+});
+
+describe('buildDecentSampler', () => {
+    it('uses the reversed copy for reversed regions', () => {
+        const preset = buildDecentSampler(build([region({ reverse: true })]));
+        expect(preset).toContain('path="Samples/kick reversed.wav"');
+    });
+});
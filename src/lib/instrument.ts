@@ -0,0 +1,183 @@
+import type { FilterType } from './AudioEngine';
+import { CHOKE_GROUP_COUNT, FILTER_MAX_RESONANCE_DB } from '../config/constants';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** MIDI note of the first pad; the rest follow chromatically (36 = C1, the usual drum pad note) */
+export const INSTRUMENT_BASE_NOTE = 36;
+
+/** Folder the samples go in, next to the instrument files */
+export const INSTRUMENT_SAMPLE_FOLDER = 'Samples';
+
+/**
+ * One pad as a sampler region.
+ */
+export interface InstrumentRegion {
+    sample: string;             // File name inside the sample folder
+    reversedSample: string;     // Reversed copy, for samplers that can't play backwards
+    note: number;
+    attack: number;             // In seconds
+    decay: number;              // In seconds
+    sustain: number;            // 0-1 of the peak level
+    release: number;            // In seconds
+    reverse: boolean;
+    transpose: number;          // In semitones, 0 when the pitch is baked into the sample
+    volume: number;             // In dB
+    pan: number;                // -1 (left) to 1 (right)
+    chokeGroup: number | null;
+    muteGroup: number | null;
+    filter: InstrumentFilter | null;  // Null when the filter is open or baked into the sample
+}
+
+export interface InstrumentFilter {
+    type: FilterType;
+    cutoff: number;             // In Hz
+    resonance: number;          // 0-1
+}
+
+export interface Instrument {
+    name: string;
+    oneShot: boolean;           // Trigger mode: notes play the whole sample
+    regions: InstrumentRegion[];
+}
+
+// ============================================================================
+// SFZ
+// ============================================================================
+
+const SFZ_FILTER_TYPES: Record<FilterType, string> = {
+    lowpass: 'lpf_2p',
+    highpass: 'hpf_2p',
+    bandpass: 'bpf_2p',
+};
+
+/**
+ * Writes the instrument as an SFZ file. Reversed regions use the `direction` opcode.
+ * Filters are written as 2-pole filters with the resonance peak in dB.
+ */
+export function buildSfz(instrument: Instrument): string {
+    const lines = [
+        `// ${instrument.name}`,
+        '',
+        '<control>',
+        `default_path=${INSTRUMENT_SAMPLE_FOLDER}/`,
+        '',
+        '<global>',
+        'pitch_keytrack=0',
+        `loop_mode=${instrument.oneShot ? 'one_shot' : 'no_loop'}`,
+    ];
+
+    for (const region of instrument.regions) {
+        const opcodes = [
+            `sample=${region.sample}`,
+            `key=${region.note}`,
+            `pitch_keycenter=${region.note}`,
+            `ampeg_attack=${formatNumber(region.attack)}`,
+            `ampeg_decay=${formatNumber(region.decay)}`,
+            `ampeg_sustain=${formatNumber(region.sustain * 100)}`,
+            `ampeg_release=${formatNumber(region.release)}`,
+        ];
+        if (region.reverse) opcodes.push('direction=reverse');
+        if (region.transpose !== 0) {
+            const semitones = Math.trunc(region.transpose);
+            opcodes.push(`transpose=${semitones}`, `tune=${Math.round((region.transpose - semitones) * 100)}`);
+        }
+        if (region.volume !== 0) opcodes.push(`volume=${formatNumber(region.volume)}`);
+        if (region.pan !== 0) opcodes.push(`pan=${formatNumber(region.pan * 100)}`);
+        if (region.filter) {
+            opcodes.push(
+                `fil_type=${SFZ_FILTER_TYPES[region.filter.type]}`,
+                `cutoff=${formatNumber(region.filter.cutoff)}`,
+                `resonance=${formatNumber(region.filter.resonance * FILTER_MAX_RESONANCE_DB)}`
+            );
+        }
+        const silencing = regionSilencing(region);
+        if (silencing) {
+            opcodes.push(`group=${silencing.group}`, `off_by=${silencing.group}`, `off_mode=${silencing.mode}`);
+        }
+
+        lines.push('', '<region>', ...opcodes);
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+// ============================================================================
+// DecentSampler
+// ============================================================================
+
+/**
+ * Writes the instrument as a DecentSampler preset.
+ * DecentSampler has no reverse playback, so reversed regions use the reversed copy of their sample.
+ * Its filters are effects on a whole group rather than on a sample, so region filters are left out.
+ */
+export function buildDecentSampler(instrument: Instrument): string {
+    const samples = instrument.regions.map(region => {
+        const attributes: Record<string, string | number> = {
+            path: `${INSTRUMENT_SAMPLE_FOLDER}/${region.reverse ? region.reversedSample : region.sample}`,
+            rootNote: region.note,
+            loNote: region.note,
+            hiNote: region.note,
+            pitchKeyTrack: 0,
+            attack: formatNumber(region.attack),
+            decay: formatNumber(region.decay),
+            sustain: formatNumber(region.sustain),
+            release: formatNumber(region.release),
+        };
+        if (region.transpose !== 0) attributes.tuning = formatNumber(region.transpose);
+        if (region.volume !== 0) attributes.volume = `${formatNumber(region.volume)}dB`;
+        if (region.pan !== 0) attributes.pan = formatNumber(region.pan * 100);
+        const silencing = regionSilencing(region);
+        if (silencing) {
+            attributes.tags = `group${silencing.group}`;
+            attributes.silencedByTags = `group${silencing.group}`;
+            attributes.silencingMode = silencing.mode;
+        }
+
+        const text = Object.entries(attributes)
+            .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+            .join(' ');
+        return `      <sample ${text} />`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<DecentSampler minVersion="1.0.0">',
+        '  <groups>',
+        '    <group>',
+        ...samples,
+        '    </group>',
+        '  </groups>',
+        '</DecentSampler>',
+        '',
+    ].join('\n');
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * How a region is silenced by the others in its group: choke groups let it play its release
+ * (`normal`), mute groups cut it off (`fast`). Mute groups are numbered after the choke groups.
+ * Samplers put a region in one group only, so a pad in both keeps its choke group.
+ */
+function regionSilencing(region: InstrumentRegion): { group: number; mode: 'normal' | 'fast' } | null {
+    if (region.chokeGroup !== null) return { group: region.chokeGroup, mode: 'normal' };
+    if (region.muteGroup !== null) return { group: CHOKE_GROUP_COUNT + region.muteGroup, mode: 'fast' };
+    return null;
+}
+
+function formatNumber(value: number): string {
+    return String(Math.round(value * 10000) / 10000);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { MidiMapping, controlKey, controlValue, findControl, forgetTarget, learnControl, parseMidiMessage } from './midi';
+
+describe('parseMidiMessage', () => {
+    it('reads notes and controllers with channels counted from 1', () => {
+        expect(parseMidiMessage([0x90, 36, 100])).toEqual({ type: 'noteon', channel: 1, note: 36, velocity: 100 });
+        expect(parseMidiMessage([0x89, 36, 64])).toEqual({ type: 'noteoff', channel: 10, note: 36 });
+        expect(parseMidiMessage([0xb2, 74, 127])).toEqual({ type: 'cc', channel: 3, controller: 74, value: 127 });
+    });
+
+    it('treats a note-on with velocity 0 as a note-off', () => {
+        expect(parseMidiMessage([0x90, 40, 0])).toEqual({ type: 'noteoff', channel: 1, note: 40 });
+    });
+
+    it('ignores messages the app does not use', () => {
+        expect(parseMidiMessage([0xf8])).toBeNull();
+        expect(parseMidiMessage([0xe0, 0, 64])).toBeNull();
+        expect(parseMidiMessage([0x90, 36])).toBeNull();
+    });
+});
+
+describe('learning controllers', () => {
+    it('binds a controller to a target', () => {
+        const mapping = learnControl({}, controlKey(1, 74), 'filterCutoff');
+        expect(findControl(mapping, 'filterCutoff')).toBe('1:74');
+    });
+
+    it('keeps one controller per target', () => {
+        let mapping = learnControl({}, controlKey(1, 74), 'filterCutoff');
+        mapping = learnControl(mapping, controlKey(2, 71), 'filterCutoff');
+        expect(mapping).toEqual({ '2:71': 'filterCutoff' });
+    });
+
+    it('moves a controller to the target it is learned for last', () => {
+        let mapping = learnControl({}, controlKey(1, 74), 'filterCutoff');
+        mapping = learnControl(mapping, controlKey(1, 74), 'gain');
+        expect(findControl(mapping, 'filterCutoff')).toBeNull();
+        expect(findControl(mapping, 'gain')).toBe('1:74');
+    });
+
+    it('unbinds a target and leaves the others', () => {
+        const mapping: MidiMapping = { '1:74': 'filterCutoff', '1:7': 'masterVolume' };
+        const next = forgetTarget(mapping, 'filterCutoff');
+
+        expect(next).toEqual({ '1:7': 'masterVolume' });
+        expect(mapping['1:74']).toBe('filterCutoff');
+    });
+
+    it('scales controller values to the target range', () => {
+        expect(controlValue('attack', 0)).toBe(0);
+        expect(controlValue('attack', 127)).toBe(100);
+        expect(controlValue('pan', 64)).toBe(1);
+    });
+});
@@ -0,0 +1,153 @@
+import {
+    TIME_STRETCH_MAX, TIME_STRETCH_MIN, MIDI_KEY_SHIFT_RANGE, MIDI_MAPPINGS_STORAGE_KEY, PAD_GAIN_MAX_DB, PAD_GAIN_MIN_DB
+} from '../config/constants';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** The MIDI messages the app responds to; channels count from 1 */
+export type MidiMessage =
+    | { type: 'noteon'; channel: number; note: number; velocity: number }   // velocity 1-127
+    | { type: 'noteoff'; channel: number; note: number }
+    | { type: 'cc'; channel: number; controller: number; value: number };   // value 0-127
+
+export interface MidiInputInfo {
+    id: string;
+    name: string;
+}
+
+/**
+ * Where MIDI comes from.
+ * The app only talks to this, so it can be driven by the browser's Web MIDI or by a fake source in tests.
+ */
+export interface MidiSource {
+    /** Inputs currently connected */
+    getInputs(): MidiInputInfo[];
+    /** Listens to one input only, or to none with null */
+    selectInput(id: string | null): void;
+    dispose(): void;
+
+    onMessage: ((message: MidiMessage) => void) | null;
+    // Called when a device is plugged in or removed
+    onInputsChange: (() => void) | null;
+}
+
+/** Controls that can be learned: the selected pad's params, the global key shift and the master volume */
+export type MidiTarget =
+    | 'attack' | 'decay' | 'sustain' | 'release' | 'timeStretch' | 'keyShift'
+    | 'filterCutoff' | 'filterResonance' | 'filterEnvelope' | 'velocityToFilter' | 'gain' | 'pan'
+    | 'globalKeyShift' | 'masterVolume';
+
+/** Learned controllers, keyed by `controlKey` */
+export type MidiMapping = Record<string, MidiTarget>;
+
+// Range a controller sweeps for each target
+const TARGET_RANGES: Record<MidiTarget, { min: number; max: number }> = {
+    attack: { min: 0, max: 100 },
+    decay: { min: 0, max: 100 },
+    sustain: { min: 0, max: 100 },
+    release: { min: 0, max: 100 },
+    timeStretch: { min: TIME_STRETCH_MIN, max: TIME_STRETCH_MAX },
+    keyShift: { min: -MIDI_KEY_SHIFT_RANGE, max: MIDI_KEY_SHIFT_RANGE },
+    filterCutoff: { min: 0, max: 100 },
+    filterResonance: { min: 0, max: 100 },
+    filterEnvelope: { min: -100, max: 100 },
+    velocityToFilter: { min: 0, max: 100 },
+    gain: { min: PAD_GAIN_MIN_DB, max: PAD_GAIN_MAX_DB },
+    pan: { min: -100, max: 100 },
+    globalKeyShift: { min: -MIDI_KEY_SHIFT_RANGE, max: MIDI_KEY_SHIFT_RANGE },
+    masterVolume: { min: 0, max: 100 },
+};
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Reads a raw MIDI message.
+ * A note-on with velocity 0 is a note-off, as many keyboards send it that way.
+ * @returns The message, or null for messages the app doesn't use (clock, aftertouch, sysex...)
+ */
+export function parseMidiMessage(data: ArrayLike<number>): MidiMessage | null {
+    if (data.length < 3) return null;
+
+    const command = data[0] & 0xf0;
+    const channel = (data[0] & 0x0f) + 1;
+    switch (command) {
+        case 0x90:
+            return data[2] > 0
+                ? { type: 'noteon', channel, note: data[1], velocity: data[2] }
+                : { type: 'noteoff', channel, note: data[1] };
+        case 0x80:
+            return { type: 'noteoff', channel, note: data[1] };
+        case 0xb0:
+            return { type: 'cc', channel, controller: data[1], value: data[2] };
+        default:
+            return null;
+    }
+}
+
+// ============================================================================
+// Mappings
+// ============================================================================
+
+/** Key of a controller in a `MidiMapping` */
+export function controlKey(channel: number, controller: number): string {
+    return `${channel}:${controller}`;
+}
+
+/** Name of a learned controller, like "CC 74" (with the channel when it isn't 1) */
+export function describeControl(key: string): string {
+    const [channel, controller] = key.split(':');
+    return channel === '1' ? `CC ${controller}` : `CC ${controller} ch ${channel}`;
+}
+
+/** The controller learned for a target, if any */
+export function findControl(mapping: MidiMapping, target: MidiTarget): string | null {
+    return Object.keys(mapping).find(key => mapping[key] === target) ?? null;
+}
+
+/**
+ * Binds a controller to a target.
+ * A target has one controller, so learning it again replaces the old one.
+ */
+export function learnControl(mapping: MidiMapping, key: string, target: MidiTarget): MidiMapping {
+    const next = forgetTarget(mapping, target);
+    next[key] = target;
+    return next;
+}
+
+export function forgetTarget(mapping: MidiMapping, target: MidiTarget): MidiMapping {
+    return Object.fromEntries(Object.entries(mapping).filter(([, mapped]) => mapped !== target));
+}
+
+/**
+ * Scales a controller value (0-127) to the target's range.
+ * Values are whole numbers, like the controls they stand in for.
+ */
+export function controlValue(target: MidiTarget, value: number): number {
+    const { min, max } = TARGET_RANGES[target];
+    return Math.round(min + (value / 127) * (max - min));
+}
+
+/**
+ * Learned controllers belong to the hardware rather than to a project, so they're kept in the browser.
+ */
+export function loadMidiMappings(): MidiMapping {
+    try {
+        const stored = localStorage.getItem(MIDI_MAPPINGS_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : {};
+        return typeof parsed === 'object' && parsed !== null ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+export function saveMidiMappings(mapping: MidiMapping) {
+    try {
+        localStorage.setItem(MIDI_MAPPINGS_STORAGE_KEY, JSON.stringify(mapping));
+    } catch (error) {
+        console.error('[MIDI] Failed to save the learned controllers:', error);
+    }
+}
@@ -0,0 +1,244 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { renderOffline } from './offlineRender';
+import type { PadParams } from './AudioEngine';
+
+// Rendering runs in 128-frame blocks; at this rate a block is exactly 1/64 s
+const SAMPLE_RATE = 8192;
+const BLOCK = 128;
+// Frames the stand-in for Rubber Band holds back before its first output
+const START_DELAY = 100;
+
+vi.mock('../workers/rubberband.worklet.js?worker&url', () => ({ default: 'rubberband.worklet.js' }));
+
+// Rubber Band without the stretching: it passes audio through after its start delay,
+// and works on the same flat memory the worklet reads and writes through pointers
+vi.mock('rubberband-wasm', () => ({
+    RubberBandOption: {
+        RubberBandOptionProcessRealTime: 1,
+        RubberBandOptionTransientsMixed: 2,
+        RubberBandOptionDetectorCompound: 4,
+        RubberBandOptionPhaseLaminar: 8,
+    },
+    RubberBandInterface: {
+        initialize: async () => {
+            const memory = new ArrayBuffer(1 << 22);
+            const floats = new Float32Array(memory);
+            const pointers = new Int32Array(memory);
+            let next = 0;
+            let queued: [number[], number[]] = [[], []];
+            let primed = true;
+
+            return {
+                malloc: (bytes: number) => {
+                    const pointer = next;
+                    next += Math.ceil(bytes / 4) * 4;
+                    return pointer;
+                },
+                free: () => {},
+                memWrite: (pointer: number, data: Float32Array) => floats.set(data, pointer / 4),
+                memWritePtr: (address: number, pointer: number) => { pointers[address / 4] = pointer; },
+                memReadF32: (pointer: number, count: number) => floats.slice(pointer / 4, pointer / 4 + count),
+                rubberband_new: () => 1,
+                rubberband_reset: () => {
+                    queued = [[], []];
+                    primed = true;
+                },
+                rubberband_set_pitch_scale: () => {},
+                rubberband_set_time_ratio: () => {},
+                rubberband_get_start_delay: () => START_DELAY,
+                rubberband_process: (_state: number, inputs: number, count: number) => {
+                    for (let c = 0; c < 2; c++) {
+                        if (primed) queued[c].push(...new Array<number>(START_DELAY).fill(0));
+                        const start = pointers[inputs / 4 + c] / 4;
+                        queued[c].push(...floats.subarray(start, start + count));
+                    }
+                    primed = false;
+                },
+                rubberband_available: () => queued[0].length,
+                rubberband_retrieve: (_state: number, outputs: number, count: number) => {
+                    for (let c = 0; c < 2; c++) {
+                        floats.set(queued[c].splice(0, count), pointers[outputs / 4 + c] / 4);
+                    }
+                    return count;
+                },
+            };
+        }
+    }
+}));
+
+// ============================================================================
+// A just-big-enough OfflineAudioContext
+// ============================================================================
+
+class FakePort {
+    other!: FakePort;
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+
+    postMessage(data: unknown) {
+        queueMicrotask(() => this.other.onmessage?.({ data }));
+    }
+}
+
+const createPorts = (): [FakePort, FakePort] => {
+    const a = new FakePort();
+    const b = new FakePort();
+    a.other = b;
+    b.other = a;
+    return [a, b];
+};
+
+// Only the worklet's own parameters matter; the filter and the envelope pass audio through
+class FakeParam {
+    value = 0;
+    setValueAtTime(value: number) { this.value = value; }
+    linearRampToValueAtTime() {}
+    exponentialRampToValueAtTime() {}
+    setTargetAtTime() {}
+    cancelScheduledValues() {}
+    cancelAndHoldAtTime() {}
+}
+
+class FakeNode {
+    connect(node: FakeNode) { return node; }
+    disconnect() {}
+}
+
+interface Processor {
+    port: FakePort;
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+
+let processorClass: (new () => Processor) | null = null;
+let nextProcessorPort: FakePort | null = null;
+let renderingNodes: FakeWorkletNode[] = [];
+
+class FakeWorkletNode extends FakeNode {
+    readonly port: FakePort;
+    readonly processor: Processor;
+    readonly parameters = new Map([['pitch', new FakeParam()], ['tempo', new FakeParam()]]);
+
+    constructor() {
+        super();
+        const [nodePort, processorPort] = createPorts();
+        this.port = nodePort;
+        nextProcessorPort = processorPort;
+        this.processor = new processorClass!();
+        renderingNodes.push(this);
+    }
+}
+
+class FakeOfflineAudioContext {
+    currentTime = 0;
+    readonly destination = new FakeNode();
+    readonly audioWorklet = {
+        addModule: async () => {
+            await import('../workers/rubberband.worklet.js');
+        }
+    };
+
+    constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+        renderingNodes = [];
+    }
+
+    createBiquadFilter() {
+        return Object.assign(new FakeNode(), { type: 'lowpass', frequency: new FakeParam(), Q: new FakeParam() });
+    }
+
+    createGain() {
+        return Object.assign(new FakeNode(), { gain: new FakeParam() });
+    }
+
+    async startRendering() {
+        const channels = [new Float32Array(this.length), new Float32Array(this.length)];
+        for (let frame = 0; frame < this.length; frame += BLOCK) {
+            vi.stubGlobal('currentTime', frame / this.sampleRate);
+            for (const node of renderingNodes) {
+                const output = [new Float32Array(BLOCK), new Float32Array(BLOCK)];
+                const parameters = Object.fromEntries([...node.parameters].map(([name, param]) => [name, new Float32Array([param.value])]));
+                node.processor.process([], [output], parameters);
+                for (let c = 0; c < 2; c++) {
+                    for (let i = 0; i < BLOCK && frame + i < this.length; i++) {
+                        channels[c][frame + i] += output[c][i];
+                    }
+                }
+            }
+            // Let the worklet's messages through between blocks, as the audio thread would
+            await new Promise(resolve => setTimeout(resolve));
+        }
+        return createBuffer(channels, this.sampleRate);
+    }
+}
+
+const createBuffer = (channels: Float32Array[], sampleRate: number) => ({
+    sampleRate,
+    length: channels[0].length,
+    duration: channels[0].length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel],
+}) as unknown as AudioBuffer;
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+const PARAMS: PadParams = {
+    speed: 1, pitch: 0, reverse: false, attack: 0, decay: 0, sustain: 1, release: 0, envelopeCurve: 'linear', volume: 1,
+    filterType: 'lowpass', cutoff: 20000, resonance: 0, filterEnvelope: 0
+};
+
+describe('renderOffline', () => {
+    // A ramp, so every sample of the source can be told apart
+    const ramp = new Float32Array(SAMPLE_RATE).map((_, i) => (i + 1) / SAMPLE_RATE);
+    const source = createBuffer([ramp, ramp], SAMPLE_RATE);
+
+    // 512 frames from a quarter of a second in, starting on the 8th block
+    const when = (8 * BLOCK) / SAMPLE_RATE;
+    const startFrame = SAMPLE_RATE / 4;
+    const render = () => renderOffline({
+        source,
+        voices: [{
+            when,
+            startPosition: startFrame / SAMPLE_RATE,
+            duration: 512 / SAMPLE_RATE,
+            loop: null,
+            params: PARAMS,
+            pitchRatio: 1,
+            tempo: 1
+        }],
+        duration: 0.25
+    }, new ArrayBuffer(0));
+
+    beforeAll(() => {
+        vi.stubGlobal('OfflineAudioContext', FakeOfflineAudioContext);
+        vi.stubGlobal('AudioWorkletNode', FakeWorkletNode);
+        vi.stubGlobal('AudioWorkletProcessor', class {
+            port = nextProcessorPort!;
+        });
+        vi.stubGlobal('registerProcessor', (_name: string, processor: new () => Processor) => {
+            processorClass = processor;
+        });
+        vi.spyOn(WebAssembly, 'compile').mockResolvedValue({} as WebAssembly.Module);
+    });
+
+    afterAll(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('renders the same pad to the same samples every time', async () => {
+        const first = await render();
+        const second = await render();
+
+        expect(Array.from(second.getChannelData(0))).toEqual(Array.from(first.getChannelData(0)));
+        expect(Array.from(second.getChannelData(1))).toEqual(Array.from(first.getChannelData(1)));
+    });
+
+    it('drops the start delay so the slice starts right at its start time', async () => {
+        const left = (await render()).getChannelData(0);
+        const startAt = when * SAMPLE_RATE;
+
+        expect(left.subarray(0, startAt).every(sample => sample === 0)).toBe(true);
+        expect(Array.from(left.subarray(startAt, startAt + 512))).toEqual(Array.from(ramp.subarray(startFrame, startFrame + 512)));
+        expect(left.subarray(startAt + 512).every(sample => sample === 0)).toBe(true);
+    });
+});
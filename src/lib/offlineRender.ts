@@ -0,0 +1,104 @@
+import processorUrl from '../workers/rubberband.worklet.js?worker&url';
+import { Voice } from './Voice';
+import { ChannelStrip, PadMix } from './ChannelStrip';
+import type { LoopRegion, PadParams } from './AudioEngine';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * One voice in an offline render, in the same terms the engine plays pads.
+ */
+export interface RenderVoice {
+    when: number;           // Start time in the render (in seconds)
+    startPosition: number;  // Where in the source playback starts (slice end when reversed)
+    duration: number;       // How much of the source to play (in original time)
+    loop: LoopRegion | null;
+    params: PadParams;
+    pitchRatio: number;     // Total pitch ratio (pad + global)
+    tempo: number;          // Total tempo (pad speed * global speed)
+    length?: number;        // How long it sounds (in render time), defaults to duration / tempo; loops need it
+    mix?: PadMix;           // Gain and pan to render with (mute and solo don't apply)
+}
+
+export interface RenderRequest {
+    source: AudioBuffer;    // Audio the voices read from
+    voices: RenderVoice[];
+    duration: number;       // Length of the render (in seconds)
+    sampleRate?: number;    // Sample rate of the result (defaults to the source's)
+}
+
+// ============================================================================
+// Offline Rendering
+// ============================================================================
+
+/**
+ * Renders voices through the Rubber Band worklet in an OfflineAudioContext, faster than real time.
+ * It's the same processor (and Rubber Band options) as playback, so renders sound like what was heard.
+ * Voices start sample-exactly at `when` and are not delayed by Rubber Band's start delay,
+ * so the same request always renders the same samples.
+ * Each voice gets its attack at the start and its release fading out the end of its length.
+ */
+export async function renderOffline(request: RenderRequest, wasmBytes: ArrayBuffer): Promise<AudioBuffer> {
+    const { source } = request;
+    const sampleRate = source.sampleRate;
+    const length = Math.max(1, Math.ceil(request.duration * sampleRate));
+
+    const context = new OfflineAudioContext(2, length, sampleRate);
+    await context.audioWorklet.addModule(processorUrl);
+
+    // The source is shared by every voice in the context's worklet scope
+    const voices = request.voices.map(({ mix }) => {
+        if (!mix) return new Voice(context, context.destination, wasmBytes);
+        const strip = new ChannelStrip(context, context.destination);
+        strip.setImmediate(mix);
+        return new Voice(context, strip.input, wasmBytes);
+    });
+    await Promise.all(voices.map(voice => voice.ready));
+    if (voices.length > 0) {
+        await voices[0].loadSource(source);
+    }
+
+    // Rendering only starts once every voice has its playback
+    await Promise.all(request.voices.map((renderVoice, i) => {
+        const voice = voices[i];
+        const end = renderVoice.when + (renderVoice.length ?? renderVoice.duration / renderVoice.tempo);
+        const attack = Math.min(renderVoice.params.attack, end - renderVoice.when);
+
+        const scheduled = voice.start({
+            padId: null,
+            chokeGroup: null,
+            muteGroup: null,
+            cuePoint: renderVoice.startPosition,
+            startPosition: renderVoice.startPosition,
+            duration: renderVoice.duration,
+            loop: renderVoice.loop,
+            params: { ...renderVoice.params, attack },
+            sampleRate,
+            pitchRatio: renderVoice.pitchRatio,
+            tempo: renderVoice.tempo,
+            when: renderVoice.when,
+            skipStartDelay: true
+        });
+        voice.fadeOutAt(end, Math.min(renderVoice.params.release, end - renderVoice.when - attack));
+        return scheduled;
+    }));
+
+    const rendered = await context.startRendering();
+    const targetRate = request.sampleRate ?? sampleRate;
+    return targetRate === sampleRate ? rendered : resample(rendered, targetRate);
+}
+
+/**
+ * Converts a buffer to another sample rate.
+ */
+export async function resample(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+    const length = Math.max(1, Math.round(buffer.duration * sampleRate));
+    const context = new OfflineAudioContext(buffer.numberOfChannels, length, sampleRate);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start();
+    return context.startRendering();
+}
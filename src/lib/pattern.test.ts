@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+    Pattern, changeTimeSignature, createPattern, normalizePattern, patternBars, patternLength, placeHit, quantizePattern,
+    setStep, stepOffset, stepVelocity, swingDelay
+} from './pattern';
+
+const withSwing = (swing: number): Pattern => ({ ...createPattern(), swing });
+
+describe('swingDelay', () => {
+    it('leaves straight patterns alone', () => {
+        expect(swingDelay(1, 50)).toBe(0);
+        expect(swingDelay(3, 50)).toBe(0);
+    });
+
+    it('only delays the second step of each pair', () => {
+        expect(swingDelay(0, 75)).toBe(0);
+        expect(swingDelay(1, 75)).toBeCloseTo(0.5);
+        expect(swingDelay(2, 75)).toBe(0);
+        expect(swingDelay(3, 75)).toBeCloseTo(0.5);
+    });
+
+    it('gives a triplet feel at 66%', () => {
+        expect(swingDelay(1, 66)).toBeCloseTo(0.32);
+    });
+});
+
+describe('placeHit', () => {
+    it('keeps unquantized hits where they were played', () => {
+        expect(placeHit(createPattern(), 2.2, 0)).toEqual({ step: 2, offset: expect.closeTo(0.2) });
+        expect(placeHit(createPattern(), 2.8, 0)).toEqual({ step: 3, offset: expect.closeTo(-0.2) });
+    });
+
+    it('moves hits onto 16ths', () => {
+        expect(placeHit(createPattern(), 2.4, 1)).toEqual({ step: 2, offset: 0 });
+        expect(placeHit(createPattern(), 2.6, 1)).toEqual({ step: 3, offset: 0 });
+    });
+
+    it('moves hits onto coarser grids', () => {
+        expect(placeHit(createPattern(), 2.9, 2)).toEqual({ step: 2, offset: 0 });
+        expect(placeHit(createPattern(), 3.1, 2)).toEqual({ step: 4, offset: 0 });
+        expect(placeHit(createPattern(), 5.9, 4)).toEqual({ step: 4, offset: 0 });
+        expect(placeHit(createPattern(), 6.1, 4)).toEqual({ step: 8, offset: 0 });
+    });
+
+    it('measures hits against the swung steps', () => {
+        // With 75% swing, step 1 sounds at 1.5
+        expect(placeHit(withSwing(75), 1.4, 1)).toEqual({ step: 1, offset: 0 });
+        expect(placeHit(withSwing(75), 1.4, 0)).toEqual({ step: 1, offset: expect.closeTo(-0.1) });
+    });
+
+    it('wraps hits past the end back to the start', () => {
+        expect(placeHit(createPattern(), 15.8, 1)).toEqual({ step: 0, offset: 0 });
+        expect(placeHit(createPattern(), 15.8, 0)).toEqual({ step: 0, offset: expect.closeTo(-0.2) });
+        expect(placeHit(createPattern(), 14.5, 4)).toEqual({ step: 0, offset: 0 });
+    });
+});
+
+describe('quantizePattern', () => {
+    it('leaves the pattern alone with quantize off', () => {
+        const pattern = setStep(createPattern(), 'pad-1', 2, 1, 0.3, 0);
+        expect(quantizePattern(pattern, 0)).toBe(pattern);
+    });
+
+    it('moves hits onto the grid and clears their offsets', () => {
+        const pattern = setStep(createPattern(), 'pad-1', 2, 0.8, 0.7, 1.5);
+        const quantized = quantizePattern(pattern, 1);
+
+        expect(stepVelocity(quantized, 'pad-1', 2)).toBe(0);
+        expect(stepVelocity(quantized, 'pad-1', 3)).toBe(0.8);
+        expect(stepOffset(quantized, 'pad-1', 3)).toBe(0);
+        expect(quantized.gates['pad-1'][3]).toBe(1.5);
+    });
+
+    it('keeps the louder hit when two land on the same step', () => {
+        let pattern = setStep(createPattern(), 'pad-1', 4, 0.5, 0, 0);
+        pattern = setStep(pattern, 'pad-1', 3, 0.9, 0, 0);
+        const quantized = quantizePattern(pattern, 2);
+
+        expect(stepVelocity(quantized, 'pad-1', 4)).toBe(0.9);
+        expect(stepVelocity(quantized, 'pad-1', 3)).toBe(0);
+    });
+
+    it('leaves other pads and hits past the end where they are', () => {
+        let pattern = setStep(createPattern(), 'pad-1', 1, 1, 0, 0);
+        pattern = setStep(pattern, 'pad-2', 20, 0.6, 0, 0);
+        const quantized = quantizePattern(pattern, 4);
+
+        expect(stepVelocity(quantized, 'pad-1', 0)).toBe(1);
+        expect(stepVelocity(quantized, 'pad-2', 20)).toBe(0.6);
+    });
+});
+
+describe('pattern length', () => {
+    it('counts whole bars of the time signature', () => {
+        expect(patternLength(2, { beats: 4, unit: 4 })).toBe(32);
+        expect(patternLength(1, { beats: 3, unit: 4 })).toBe(12);
+        expect(patternLength(4, { beats: 7, unit: 8 })).toBe(56);
+    });
+
+    it('keeps the number of bars when the time signature changes', () => {
+        const pattern = { ...createPattern(), length: 64 };
+        const changed = changeTimeSignature(pattern, { beats: 6, unit: 8 });
+
+        expect(changed.length).toBe(48);
+        expect(patternBars(changed)).toBe(4);
+    });
+
+    it('rounds older patterns that ended mid-bar to whole bars', () => {
+        const pattern = normalizePattern({ length: 16, timeSignature: { beats: 3, unit: 4 } });
+        expect(pattern.length).toBe(12);
+    });
+});
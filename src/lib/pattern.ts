@@ -0,0 +1,246 @@
+import { SWING_MIN } from '../config/constants';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** Bars in a pattern; in 4/4 that makes 16, 32 or 64 steps of a 16th note */
+export type PatternBars = 1 | 2 | 4;
+
+export const PATTERN_BARS: PatternBars[] = [1, 2, 4];
+
+export interface TimeSignature {
+    beats: number;  // Beats per bar
+    unit: number;   // Note value of a beat (4 = quarter, 8 = eighth)
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+    { beats: 4, unit: 4 },
+    { beats: 3, unit: 4 },
+    { beats: 5, unit: 4 },
+    { beats: 6, unit: 8 },
+    { beats: 7, unit: 8 },
+];
+
+/**
+ * Which pads play on which steps.
+ * `steps` holds a velocity (0-1) per step for each pad id, 0 meaning the step is off.
+ * Recorded hits that weren't quantized keep how far off the step they were played in `offsets`,
+ * and how long the pad was held in `gates` (both in steps, 0 for programmed steps).
+ * Rows always hold the longest pattern, so shortening a pattern doesn't lose steps.
+ */
+export interface Pattern {
+    length: number;     // In steps, always a whole number of bars of the time signature
+    timeSignature: TimeSignature;
+    steps: Record<string, number[]>;
+    offsets: Record<string, number[]>;
+    gates: Record<string, number[]>;
+    swing: number;  // Percent of a step pair given to its first step: 50 is straight, 66 is a triplet feel
+}
+
+/** Grid recorded hits are moved to, in steps (0 keeps them where they were played) */
+export type QuantizeGrid = 0 | 1 | 2 | 4;
+
+export const QUANTIZE_GRIDS: { value: QuantizeGrid; label: string }[] = [
+    { value: 0, label: 'Off' },
+    { value: 1, label: '1/16' },
+    { value: 2, label: '1/8' },
+    { value: 4, label: '1/4' },
+];
+
+/** Overdub adds to the pattern; replace clears a pad's row the first time it's played in a take */
+export type RecordMode = 'overdub' | 'replace';
+
+/** Bars of clicks before recording starts from a stop */
+export type CountInBars = 0 | 1 | 2;
+
+export const COUNT_IN_BARS: CountInBars[] = [0, 1, 2];
+
+/** Where a recorded hit lands */
+export interface StepPlacement {
+    step: number;
+    offset: number; // In steps, from the (swung) step time
+}
+
+// Longest pattern in steps: 4 bars of 5/4
+const MAX_PATTERN_LENGTH = 80;
+
+// The tempo counts quarter notes
+const STEPS_PER_QUARTER = 4;
+
+// ============================================================================
+// Pattern Helpers
+// ============================================================================
+
+export function createPattern(): Pattern {
+    return {
+        length: 16,
+        timeSignature: TIME_SIGNATURES[0],
+        steps: {},
+        offsets: {},
+        gates: {},
+        swing: SWING_MIN,
+    };
+}
+
+export function stepVelocity(pattern: Pattern, padId: string, step: number): number {
+    return pattern.steps[padId]?.[step] ?? 0;
+}
+
+export function stepOffset(pattern: Pattern, padId: string, step: number): number {
+    return pattern.offsets[padId]?.[step] ?? 0;
+}
+
+export function stepGate(pattern: Pattern, padId: string, step: number): number {
+    return pattern.gates[padId]?.[step] ?? 0;
+}
+
+/**
+ * Returns a copy of the pattern with one step set (0 turns it off).
+ * Changing the velocity of a step keeps its timing; turning it on or off resets it.
+ */
+export function setStepVelocity(pattern: Pattern, padId: string, step: number, velocity: number): Pattern {
+    const clamped = Math.max(0, Math.min(1, velocity));
+    if (clamped > 0 && stepVelocity(pattern, padId, step) > 0) {
+        return { ...pattern, steps: setRowValue(pattern.steps, padId, step, clamped) };
+    }
+    return setStep(pattern, padId, step, clamped, 0, 0);
+}
+
+/**
+ * Returns a copy of the pattern with one step's velocity, offset and gate set.
+ */
+export function setStep(pattern: Pattern, padId: string, step: number, velocity: number, offset: number, gate: number): Pattern {
+    return {
+        ...pattern,
+        steps: setRowValue(pattern.steps, padId, step, Math.max(0, Math.min(1, velocity))),
+        offsets: setRowValue(pattern.offsets, padId, step, offset),
+        gates: setRowValue(pattern.gates, padId, step, Math.max(0, gate)),
+    };
+}
+
+/**
+ * Returns a copy of the pattern with every step of one pad turned off.
+ */
+export function clearRow(pattern: Pattern, padId: string): Pattern {
+    const { [padId]: _steps, ...steps } = pattern.steps;
+    const { [padId]: _offsets, ...offsets } = pattern.offsets;
+    const { [padId]: _gates, ...gates } = pattern.gates;
+    return { ...pattern, steps, offsets, gates };
+}
+
+/**
+ * Brings a pattern from an older project up to date.
+ * Older patterns could end mid-bar, so their length is rounded to whole bars.
+ */
+export function normalizePattern(pattern: Partial<Pattern> | undefined): Pattern {
+    const normalized = { ...createPattern(), ...pattern };
+    return { ...normalized, length: patternLength(patternBars(normalized), normalized.timeSignature) };
+}
+
+/** Steps in a pattern of `bars` bars of the time signature */
+export function patternLength(bars: PatternBars, timeSignature: TimeSignature): number {
+    return bars * stepsPerBar(timeSignature);
+}
+
+/** How many bars the pattern is, rounded to the nearest pattern size */
+export function patternBars(pattern: Pattern): PatternBars {
+    const bars = pattern.length / stepsPerBar(pattern.timeSignature);
+    return PATTERN_BARS.reduce((best, candidate) => Math.abs(candidate - bars) < Math.abs(best - bars) ? candidate : best);
+}
+
+/**
+ * Returns a copy of the pattern in another time signature, keeping its number of bars.
+ */
+export function changeTimeSignature(pattern: Pattern, timeSignature: TimeSignature): Pattern {
+    return { ...pattern, timeSignature, length: patternLength(patternBars(pattern), timeSignature) };
+}
+
+// ============================================================================
+// Timing
+// ============================================================================
+
+/**
+ * How late a step plays because of swing, in steps.
+ * Swing delays the second 16th of every pair.
+ */
+export function swingDelay(step: number, swing: number): number {
+    return step % 2 === 1 ? (2 * swing) / 100 - 1 : 0;
+}
+
+/**
+ * Finds the step a hit played at `position` (in steps from the start of the pattern) belongs to.
+ * Unquantized hits go to the nearest swung step and keep their distance from it as an offset.
+ * Quantized hits move onto the grid; grids of 1/8 and coarser only hold even steps, so swing doesn't move them.
+ */
+export function placeHit(pattern: Pattern, position: number, quantize: QuantizeGrid): StepPlacement {
+    if (quantize > 1) {
+        const step = Math.round(position / quantize) * quantize;
+        return { step: wrapStep(step, pattern.length), offset: 0 };
+    }
+
+    const below = Math.floor(position);
+    const step = [below, below + 1].reduce((best, candidate) => {
+        const distance = Math.abs(position - (candidate + swingDelay(candidate, pattern.swing)));
+        const bestDistance = Math.abs(position - (best + swingDelay(best, pattern.swing)));
+        return distance < bestDistance ? candidate : best;
+    });
+    const offset = quantize === 0 ? position - (step + swingDelay(step, pattern.swing)) : 0;
+    return { step: wrapStep(step, pattern.length), offset };
+}
+
+/**
+ * Returns a copy of the pattern with every hit moved onto the grid and its offset cleared.
+ * Hits that land on the same step keep the louder one.
+ */
+export function quantizePattern(pattern: Pattern, quantize: QuantizeGrid): Pattern {
+    if (quantize === 0) return pattern;
+
+    let result: Pattern = { ...pattern, steps: {}, offsets: {}, gates: {} };
+    for (const [padId, row] of Object.entries(pattern.steps)) {
+        row.forEach((velocity, step) => {
+            if (velocity <= 0) return;
+
+            // Steps past the end of the pattern aren't heard, so they stay where they are
+            const target = step < pattern.length
+                ? placeHit(pattern, step + swingDelay(step, pattern.swing) + stepOffset(pattern, padId, step), quantize).step
+                : step;
+            if (stepVelocity(result, padId, target) >= velocity) return;
+            result = setStep(result, padId, target, velocity, 0, stepGate(pattern, padId, step));
+        });
+    }
+    return result;
+}
+
+/** Steps in one bar of the time signature */
+export function stepsPerBar(timeSignature: TimeSignature): number {
+    return timeSignature.beats * stepsPerBeat(timeSignature);
+}
+
+/** Steps in one beat of the time signature (4 for quarter-note beats) */
+export function stepsPerBeat(timeSignature: TimeSignature): number {
+    return (STEPS_PER_QUARTER * 4) / timeSignature.unit;
+}
+
+/** Length of one step in seconds */
+export function stepDuration(bpm: number): number {
+    return 60 / bpm / STEPS_PER_QUARTER;
+}
+
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+    return `${timeSignature.beats}/${timeSignature.unit}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function setRowValue(rows: Record<string, number[]>, padId: string, step: number, value: number): Record<string, number[]> {
+    const row = rows[padId]?.slice() ?? new Array<number>(MAX_PATTERN_LENGTH).fill(0);
+    row[step] = value;
+    return { ...rows, [padId]: row };
+}
+
+function wrapStep(step: number, length: number): number {
+    return ((step % length) + length) % length;
+}
@@ -0,0 +1,148 @@
+import type { Pad } from '../context/AudioContext';
+import type { SnapMode } from './snap';
+import type { Pattern } from './pattern';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** Bump when the format changes, and teach `parseProject` to upgrade older files */
+export const PROJECT_VERSION = 1;
+
+const PROJECT_FORMAT = 'sample-chopper-project';
+
+/** File extension used for saved projects */
+export const PROJECT_FILE_EXTENSION = '.chop.json';
+
+/**
+ * The source audio of a project.
+ * `data` holds the whole file as a data URL when the audio is embedded;
+ * without it the project only remembers which file it was made from.
+ */
+export interface ProjectAudio {
+    name: string;
+    type: string;
+    size: number;
+    data?: string;
+}
+
+export interface ProjectSettings {
+    globalKeyShift: number;
+    bpm: number | null;             // Playback tempo
+    detectedBpm: number | null;     // Tempo of the track itself
+    detectedKey?: string | null;    // Key of the track, like "A minor" (missing from older projects)
+    downbeatOffset: number;
+    playMode: 'gate' | 'trigger';
+    masterVolume: number;
+    snapMode: SnapMode;
+}
+
+export interface Project {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string;
+    audio: ProjectAudio;
+    pads: Pad[];
+    pattern?: Pattern;      // Missing from projects saved before the sequencer
+    settings: ProjectSettings;
+}
+
+// ============================================================================
+// Saving
+// ============================================================================
+
+/**
+ * Builds a project from the current state, embedding the audio file if asked to.
+ */
+export async function createProject(
+    audioFile: File,
+    pads: Pad[],
+    pattern: Pattern,
+    settings: ProjectSettings,
+    embedAudio: boolean
+): Promise<Project> {
+    const audio: ProjectAudio = {
+        name: audioFile.name,
+        type: audioFile.type,
+        size: audioFile.size,
+    };
+    if (embedAudio) {
+        audio.data = await readAsDataUrl(audioFile);
+    }
+
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        audio,
+        pads,
+        pattern,
+        settings,
+    };
+}
+
+export function serializeProject(project: Project): Blob {
+    return new Blob([JSON.stringify(project)], { type: 'application/json' });
+}
+
+/**
+ * File name for a project made from the given audio file ("beat.mp3" -> "beat.chop.json").
+ */
+export function projectFileName(audioName: string): string {
+    const baseName = audioName.replace(/\.[^.]+$/, '') || 'project';
+    return `${baseName}${PROJECT_FILE_EXTENSION}`;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Parses and validates a saved project.
+ * @throws Error if the file is not a project or was saved by a newer version
+ */
+export function parseProject(text: string): Project {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid project file');
+    }
+
+    const project = data as Partial<Project> | null;
+    if (!project || project.format !== PROJECT_FORMAT) {
+        throw new Error('Not a valid project file');
+    }
+    if (typeof project.version !== 'number' || project.version > PROJECT_VERSION) {
+        throw new Error('This project was saved by a newer version of the app');
+    }
+    if (!project.audio || !Array.isArray(project.pads) || !project.settings) {
+        throw new Error('Project file is incomplete');
+    }
+
+    return project as Project;
+}
+
+/**
+ * Turns the embedded audio back into a file, or returns null if the project only references it.
+ */
+export async function extractProjectAudio(project: Project): Promise<File | null> {
+    const { audio } = project;
+    if (!audio.data) return null;
+
+    const blob = await (await fetch(audio.data)).blob();
+    return new File([blob], audio.name, { type: audio.type || blob.type });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function readAsDataUrl(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error('Failed to read audio file'));
+        reader.readAsDataURL(file);
+    });
+}
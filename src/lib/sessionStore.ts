@@ -0,0 +1,111 @@
+import type { Project } from './project';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** The last session, as kept in IndexedDB */
+export interface StoredSession {
+    audio: File;
+    project: Project;
+}
+
+const DB_NAME = 'sample-chopper';
+const DB_VERSION = 1;
+const STORE_NAME = 'session';
+
+// The audio is stored under its own key so autosaving state doesn't rewrite it
+const AUDIO_KEY = 'audio';
+const PROJECT_KEY = 'project';
+
+// ============================================================================
+// Session Store
+// ============================================================================
+
+/**
+ * Stores the audio of the current session, replacing the previous session.
+ */
+export async function saveSessionAudio(audio: File): Promise<void> {
+    const db = await openDatabase();
+    try {
+        await runTransaction(db, 'readwrite', store => {
+            store.delete(PROJECT_KEY);
+            store.put(audio, AUDIO_KEY);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Stores the pads and settings of the current session.
+ */
+export async function saveSessionProject(project: Project): Promise<void> {
+    const db = await openDatabase();
+    try {
+        await runTransaction(db, 'readwrite', store => {
+            store.put(project, PROJECT_KEY);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Loads the last session, or null if there is none (or it was never fully saved).
+ */
+export async function loadSession(): Promise<StoredSession | null> {
+    const db = await openDatabase();
+    try {
+        let audio: File | undefined;
+        let project: Project | undefined;
+        await runTransaction(db, 'readonly', store => {
+            store.get(AUDIO_KEY).onsuccess = (e) => { audio = (e.target as IDBRequest).result; };
+            store.get(PROJECT_KEY).onsuccess = (e) => { project = (e.target as IDBRequest).result; };
+        });
+        return audio && project ? { audio, project } : null;
+    } finally {
+        db.close();
+    }
+}
+
+export async function clearSession(): Promise<void> {
+    const db = await openDatabase();
+    try {
+        await runTransaction(db, 'readwrite', store => store.clear());
+    } finally {
+        db.close();
+    }
+}
+
+// ============================================================================
+// IndexedDB Helpers
+// ============================================================================
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Failed to open session storage'));
+    });
+}
+
+/**
+ * Runs the requests queued by `queue` in one transaction, resolving once it commits.
+ */
+function runTransaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    queue: (store: IDBObjectStore) => void
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error ?? new Error('Session storage failed'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Session storage was aborted'));
+        queue(transaction.objectStore(STORE_NAME));
+    });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { getSlice, padRange, sliceRange } from './slice';
+
+const FILE_DURATION = 10;
+
+describe('getSlice', () => {
+    it('plays forward pads from the cue point to the end point, or to the end of the file', () => {
+        expect(getSlice(2, 3, false, FILE_DURATION)).toEqual({ startPosition: 2, duration: 1 });
+        expect(getSlice(2, null, false, FILE_DURATION)).toEqual({ startPosition: 2, duration: 8 });
+    });
+
+    it('plays reversed pads backwards from the end point, or from the cue point to the start of the file', () => {
+        expect(getSlice(2, 3, true, FILE_DURATION)).toEqual({ startPosition: 3, duration: 1 });
+        expect(getSlice(2, null, true, FILE_DURATION)).toEqual({ startPosition: 2, duration: 2 });
+    });
+});
+
+describe('sliceRange', () => {
+    it('covers the part of the file the pad plays, whichever way it plays', () => {
+        expect(sliceRange(getSlice(2, 3, false, FILE_DURATION), false)).toEqual({ start: 2, end: 3 });
+        expect(sliceRange(getSlice(2, 3, true, FILE_DURATION), true)).toEqual({ start: 2, end: 3 });
+        expect(sliceRange(getSlice(2, null, false, FILE_DURATION), false)).toEqual({ start: 2, end: 10 });
+    });
+});
+
+describe('padRange', () => {
+    it('exports a reversed pad without an end point as the audio it plays live', () => {
+        // Live, the pad plays [0, cue] backwards, starting from the cue point
+        const live = getSlice(2, null, true, FILE_DURATION);
+        const exported = padRange(2, null, true, FILE_DURATION);
+
+        expect(exported).toEqual({ start: live.startPosition - live.duration, end: live.startPosition });
+        expect(exported).toEqual({ start: 0, end: 2 });
+    });
+
+    it('exports the slice between the cue and end points either way', () => {
+        expect(padRange(2, 3, true, FILE_DURATION)).toEqual({ start: 2, end: 3 });
+        expect(padRange(2, 3, false, FILE_DURATION)).toEqual({ start: 2, end: 3 });
+    });
+});
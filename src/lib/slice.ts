@@ -0,0 +1,49 @@
+import { TimeRange } from './beatGrid';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** Part of the file a pad plays */
+export interface Slice {
+    startPosition: number;  // Where playback starts (slice end when reversed)
+    duration: number;
+}
+
+// ============================================================================
+// Slice Helpers
+// ============================================================================
+
+/**
+ * Works out where a pad plays from and for how long.
+ * With an end point the pad plays the slice between its cue and end points,
+ * reversed pads play it backwards from the end point (or from the cue point without one,
+ * so they play the start of the file up to the cue point).
+ */
+export function getSlice(cuePoint: number, endPoint: number | null, reverse: boolean, fileDuration: number): Slice {
+    if (reverse) {
+        return {
+            startPosition: endPoint ?? cuePoint,
+            duration: endPoint !== null ? endPoint - cuePoint : cuePoint
+        };
+    }
+    return {
+        startPosition: cuePoint,
+        duration: (endPoint ?? fileDuration) - cuePoint
+    };
+}
+
+/**
+ * The stretch of the file a slice covers, whichever way it plays.
+ */
+export function sliceRange(slice: Slice, reverse: boolean): TimeRange {
+    const start = reverse ? slice.startPosition - slice.duration : slice.startPosition;
+    return { start, end: start + slice.duration };
+}
+
+/**
+ * The stretch of the file a pad plays, for copying it out facing forwards.
+ */
+export function padRange(cuePoint: number, endPoint: number | null, reverse: boolean, fileDuration: number): TimeRange {
+    return sliceRange(getSlice(cuePoint, endPoint, reverse, fileDuration), reverse);
+}
@@ -0,0 +1,91 @@
+import { BeatGrid, beatDuration } from './beatGrid';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * What placed times are pulled towards:
+ * - off: used as is
+ * - zeroCrossing: nearest point where the waveform crosses zero (no click at the start)
+ * - transient: nearest detected transient
+ * - grid: nearest beat-grid division
+ */
+export type SnapMode = 'off' | 'zeroCrossing' | 'transient' | 'grid';
+
+/** Everything snapping can use; missing data leaves times unsnapped */
+export interface SnapTargets {
+    buffer: AudioBuffer | null;
+    transients: number[];           // Sorted transient times in seconds
+    grid: BeatGrid | null;
+    gridSubdivisions: number;       // Grid divisions per beat
+}
+
+// How far (in seconds) to look for a zero crossing either side of the time
+const ZERO_CROSSING_WINDOW = 0.01;
+
+// Transients further away than this are ignored (in seconds)
+const TRANSIENT_SNAP_DISTANCE = 0.25;
+
+// ============================================================================
+// Snapping
+// ============================================================================
+
+/**
+ * Snaps a time (in seconds) according to the mode.
+ * Returns the time unchanged when nothing suitable is close enough.
+ */
+export function snapTime(time: number, mode: SnapMode, targets: SnapTargets): number {
+    switch (mode) {
+        case 'zeroCrossing':
+            return targets.buffer ? nearestZeroCrossing(targets.buffer, time) : time;
+        case 'transient':
+            return nearestTransient(targets.transients, time);
+        case 'grid':
+            return targets.grid ? nearestGridDivision(targets.grid, targets.gridSubdivisions, time) : time;
+        default:
+            return time;
+    }
+}
+
+/**
+ * Finds the closest sample, within the search window, where the (summed) signal changes sign.
+ */
+function nearestZeroCrossing(buffer: AudioBuffer, time: number): number {
+    const left = buffer.getChannelData(0);
+    const right = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : left;
+    const center = Math.round(time * buffer.sampleRate);
+    const window = Math.round(ZERO_CROSSING_WINDOW * buffer.sampleRate);
+    const sample = (i: number) => left[i] + right[i];
+
+    for (let distance = 0; distance <= window; distance++) {
+        for (const i of [center - distance, center + distance]) {
+            if (i < 1 || i >= buffer.length) continue;
+            const previous = sample(i - 1);
+            const current = sample(i);
+            if (current === 0 || (previous < 0) !== (current < 0)) {
+                return i / buffer.sampleRate;
+            }
+        }
+    }
+    return time;
+}
+
+function nearestTransient(transients: number[], time: number): number {
+    let nearest = time;
+    let nearestDistance = TRANSIENT_SNAP_DISTANCE;
+    for (const transient of transients) {
+        const distance = Math.abs(transient - time);
+        if (distance <= nearestDistance) {
+            nearest = transient;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+}
+
+function nearestGridDivision(grid: BeatGrid, subdivisions: number, time: number): number {
+    const step = beatDuration(grid) / Math.max(1, subdivisions);
+    const snapped = grid.offset + Math.round((time - grid.offset) / step) * step;
+    return snapped < 0 ? snapped + step : snapped;
+}
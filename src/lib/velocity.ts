@@ -0,0 +1,60 @@
+import type { FilterType } from './AudioEngine';
+import { FILTER_MIN_HZ, FILTER_OPEN_HZ, VELOCITY_FILTER_MIN_HZ } from '../config/constants';
+
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/**
+ * How hard a pad responds to how hard it's hit:
+ * - fixed: every hit at full level, whatever the velocity
+ * - soft: quiet hits come out louder (for light playing)
+ * - linear: level follows velocity
+ * - hard: quiet hits come out quieter (for wide dynamics)
+ */
+export type VelocityCurve = 'fixed' | 'soft' | 'linear' | 'hard';
+
+export const VELOCITY_CURVES: { curve: VelocityCurve; title: string }[] = [
+    { curve: 'fixed', title: 'Fixed velocity' },
+    { curve: 'soft', title: 'Soft curve' },
+    { curve: 'linear', title: 'Linear curve' },
+    { curve: 'hard', title: 'Hard curve' },
+];
+
+// ============================================================================
+// Velocity Mapping
+// ============================================================================
+
+/**
+ * Puts a velocity through a curve.
+ * @param velocity Hit velocity (0-1)
+ * @returns The level the hit plays at (0-1)
+ */
+export function curveVelocity(velocity: number, curve: VelocityCurve): number {
+    const clamped = Math.max(0, Math.min(1, velocity));
+    switch (curve) {
+        case 'fixed':
+            return 1;
+        case 'soft':
+            return Math.sqrt(clamped);
+        case 'hard':
+            return clamped * clamped;
+        default:
+            return clamped;
+    }
+}
+
+/**
+ * Filter cutoff for a hit: full-velocity hits play at the pad's cutoff, softer ones lower it
+ * (an open filter down to VELOCITY_FILTER_MIN_HZ for a silent hit at full amount), so they sound duller as well as quieter.
+ * Moves evenly in pitch rather than in Hz, as the ear hears it.
+ * Only lowpass follows velocity: a lower highpass or bandpass cutoff doesn't make a hit duller.
+ * @param cutoff The pad's cutoff in Hz
+ * @param velocity Hit velocity (0-1), before the velocity curve
+ * @param amount How far velocity moves the cutoff (0-100)
+ */
+export function velocityCutoff(cutoff: number, velocity: number, amount: number, filterType: FilterType): number {
+    if (filterType !== 'lowpass') return cutoff;
+    const depth = (Math.max(0, Math.min(100, amount)) / 100) * (1 - Math.max(0, Math.min(1, velocity)));
+    return Math.max(FILTER_MIN_HZ, cutoff * Math.pow(VELOCITY_FILTER_MIN_HZ / FILTER_OPEN_HZ, depth));
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { WavBitDepth, WavMarker, encodeWav, readWavMarkers } from './wav';
+
+const SAMPLE_RATE = 1000;
+
+const silence = (length: number, numberOfChannels = 1) => ({
+    sampleRate: SAMPLE_RATE,
+    length,
+    numberOfChannels,
+    getChannelData: () => new Float32Array(length),
+}) as unknown as AudioBuffer;
+
+const roundTrip = async (markers: WavMarker[], bitDepth: WavBitDepth = 16, length = 1000) =>
+    readWavMarkers(await encodeWav(silence(length), bitDepth, markers).arrayBuffer());
+
+describe('WAV markers', () => {
+    it('reads back the positions and labels it wrote', async () => {
+        const markers: WavMarker[] = [
+            { time: 0.1, length: null, label: 'Kick' },     // Odd with its terminator, so padded
+            { time: 0.25, length: null, label: 'Snr' },
+            { time: 0.5, length: null, label: 'Hat open' },
+        ];
+        expect(await roundTrip(markers)).toEqual(markers);
+    });
+
+    it('keeps region lengths after an odd-length label', async () => {
+        const markers: WavMarker[] = [
+            { time: 0.2, length: 0.15, label: 'A' },
+            { time: 0.6, length: null, label: 'Bass' },
+            { time: 0.8, length: 0.1, label: 'Vox' },
+        ];
+        expect(await roundTrip(markers)).toEqual(markers);
+    });
+
+    it('finds the markers after an odd-sized data chunk', async () => {
+        const markers: WavMarker[] = [{ time: 0.003, length: null, label: 'Odd' }];
+        expect(await roundTrip(markers, 24, 7)).toEqual(markers);
+    });
+
+    it('sorts markers by time and keeps empty labels', async () => {
+        const markers: WavMarker[] = [
+            { time: 0.7, length: null, label: '' },
+            { time: 0.3, length: null, label: 'First' },
+        ];
+        expect(await roundTrip(markers)).toEqual([markers[1], markers[0]]);
+    });
+
+    it('has no markers for files without them, or that are not WAV files', async () => {
+        expect(await roundTrip([])).toEqual([]);
+        expect(readWavMarkers(new TextEncoder().encode('ID3 not a wav file').buffer)).toEqual([]);
+    });
+});
@@ -0,0 +1,260 @@
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+/** 16 and 24 bit are integer PCM, 32 bit is float */
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavFormat {
+    bitDepth: WavBitDepth;
+    sampleRate: number | null;  // null keeps the source's sample rate
+}
+
+/**
+ * A cue marker in a WAV file, as kept in its `cue ` and `LIST adtl` chunks.
+ * Markers with a length are regions.
+ */
+export interface WavMarker {
+    time: number;           // In seconds
+    length: number | null;  // In seconds
+    label: string;
+}
+
+export const WAV_BIT_DEPTHS: WavBitDepth[] = [16, 24, 32];
+
+export const WAV_SAMPLE_RATES = [44100, 48000, 88200, 96000];
+
+const FORMAT_PCM = 1;
+const FORMAT_IEEE_FLOAT = 3;
+const HEADER_SIZE = 44;
+
+// Size of one cue point entry in the `cue ` chunk
+const CUE_POINT_SIZE = 24;
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Encodes a buffer as a WAV file, with markers written as `cue ` and `LIST adtl` chunks.
+ */
+export function encodeWav(buffer: AudioBuffer, bitDepth: WavBitDepth, markers: WavMarker[] = []): Blob {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = channels.length * bytesPerSample;
+    const dataSize = buffer.length * blockAlign;
+
+    const view = new DataView(new ArrayBuffer(HEADER_SIZE + dataSize));
+
+    // RIFF header
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+
+    // fmt chunk
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, bitDepth === 32 ? FORMAT_IEEE_FLOAT : FORMAT_PCM, true);
+    view.setUint16(22, channels.length, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+
+    // data chunk, channels interleaved
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    let offset = HEADER_SIZE;
+    for (let i = 0; i < buffer.length; i++) {
+        for (const channel of channels) {
+            const sample = Math.max(-1, Math.min(1, channel[i]));
+            if (bitDepth === 32) {
+                view.setFloat32(offset, sample, true);
+            } else if (bitDepth === 24) {
+                const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF);
+                view.setUint8(offset, value & 0xFF);
+                view.setUint8(offset + 1, (value >> 8) & 0xFF);
+                view.setUint8(offset + 2, (value >> 16) & 0xFF);
+            } else {
+                view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7FFF), true);
+            }
+            offset += bytesPerSample;
+        }
+    }
+
+    if (markers.length === 0) {
+        return new Blob([view.buffer], { type: 'audio/wav' });
+    }
+
+    const markerChunks = encodeMarkers(markers, buffer.sampleRate);
+    view.setUint32(4, 36 + dataSize + (dataSize % 2) + markerChunks.byteLength, true);
+    const padding = new Uint8Array(dataSize % 2);
+    return new Blob([view.buffer, padding, markerChunks], { type: 'audio/wav' });
+}
+
+/**
+ * File name for a pad's chop ("beat.mp3", pad "Q" -> "beat - Q.wav").
+ */
+export function chopFileName(audioName: string, padLabel: string): string {
+    const baseName = audioName.replace(/\.[^.]+$/, '') || 'chop';
+    const label = padLabel.replace(/[\\/:*?"<>|]/g, '_');
+    return `${baseName} - ${label}.wav`;
+}
+
+// ============================================================================
+// Markers
+// ============================================================================
+
+/**
+ * Reads the cue markers of a WAV file, sorted by time.
+ * Returns no markers for anything that isn't a WAV file.
+ */
+export function readWavMarkers(data: ArrayBuffer): WavMarker[] {
+    const view = new DataView(data);
+    if (view.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+        return [];
+    }
+
+    let sampleRate = 0;
+    const positions = new Map<number, number>();    // Cue id -> sample
+    const labels = new Map<number, string>();
+    const lengths = new Map<number, number>();      // Cue id -> length in samples
+
+    forEachChunk(view, 12, view.byteLength, (id, offset, size) => {
+        if (id === 'fmt ' && size >= 8) {
+            sampleRate = view.getUint32(offset + 4, true);
+        } else if (id === 'cue ' && size >= 4) {
+            const count = Math.min(view.getUint32(offset, true), Math.floor((size - 4) / CUE_POINT_SIZE));
+            for (let i = 0; i < count; i++) {
+                const entry = offset + 4 + i * CUE_POINT_SIZE;
+                const cueId = view.getUint32(entry, true);
+                const position = view.getUint32(entry + 4, true);
+                const sampleOffset = view.getUint32(entry + 20, true);
+                // Some editors only fill in the position
+                positions.set(cueId, sampleOffset || position);
+            }
+        } else if (id === 'LIST' && size >= 4 && readString(view, offset, 4) === 'adtl') {
+            forEachChunk(view, offset + 4, offset + size, (subId, subOffset, subSize) => {
+                if ((subId === 'labl' || subId === 'note') && subSize >= 4) {
+                    const cueId = view.getUint32(subOffset, true);
+                    if (subId === 'labl' || !labels.has(cueId)) {
+                        labels.set(cueId, readString(view, subOffset + 4, subSize - 4));
+                    }
+                } else if (subId === 'ltxt' && subSize >= 8) {
+                    lengths.set(view.getUint32(subOffset, true), view.getUint32(subOffset + 4, true));
+                }
+            });
+        }
+    });
+
+    if (!sampleRate) return [];
+
+    return [...positions.entries()]
+        .map(([cueId, sample]) => {
+            const length = lengths.get(cueId);
+            return {
+                time: sample / sampleRate,
+                length: length ? length / sampleRate : null,
+                label: labels.get(cueId) ?? '',
+            };
+        })
+        .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Builds the `cue ` chunk and `LIST adtl` chunk (labels and region lengths) for the markers.
+ */
+function encodeMarkers(markers: WavMarker[], sampleRate: number): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const labels = markers.map(marker => encoder.encode(`${marker.label}\0`));
+
+    const cueSize = 4 + markers.length * CUE_POINT_SIZE;
+    const adtlSize = 4 + markers.reduce((size, marker, i) => {
+        const labelSize = 8 + 4 + labels[i].length + (labels[i].length % 2);
+        const regionSize = marker.length !== null ? 8 + 20 : 0;
+        return size + labelSize + regionSize;
+    }, 0);
+
+    const view = new DataView(new ArrayBuffer(8 + cueSize + 8 + adtlSize));
+    writeString(view, 0, 'cue ');
+    view.setUint32(4, cueSize, true);
+    view.setUint32(8, markers.length, true);
+
+    markers.forEach((marker, i) => {
+        const entry = 12 + i * CUE_POINT_SIZE;
+        const sample = Math.round(marker.time * sampleRate);
+        view.setUint32(entry, i + 1, true);         // Cue id
+        view.setUint32(entry + 4, sample, true);    // Position
+        writeString(view, entry + 8, 'data');
+        view.setUint32(entry + 12, 0, true);        // Chunk start
+        view.setUint32(entry + 16, 0, true);        // Block start
+        view.setUint32(entry + 20, sample, true);   // Sample offset
+    });
+
+    let offset = 8 + cueSize;
+    writeString(view, offset, 'LIST');
+    view.setUint32(offset + 4, adtlSize, true);
+    writeString(view, offset + 8, 'adtl');
+    offset += 12;
+
+    markers.forEach((marker, i) => {
+        writeString(view, offset, 'labl');
+        view.setUint32(offset + 4, 4 + labels[i].length, true);
+        view.setUint32(offset + 8, i + 1, true);
+        new Uint8Array(view.buffer).set(labels[i], offset + 12);
+        offset += 12 + labels[i].length + (labels[i].length % 2);
+
+        if (marker.length !== null) {
+            writeString(view, offset, 'ltxt');
+            view.setUint32(offset + 4, 20, true);
+            view.setUint32(offset + 8, i + 1, true);
+            view.setUint32(offset + 12, Math.round(marker.length * sampleRate), true);
+            writeString(view, offset + 16, 'rgn ');     // Purpose
+            offset += 28;                               // Country, language, dialect and code page stay 0
+        }
+    });
+
+    return view.buffer;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function writeString(view: DataView, offset: number, text: string) {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+}
+
+/** Reads a fixed-length or zero-terminated string */
+function readString(view: DataView, offset: number, length: number): string {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, length);
+    const end = bytes.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+/**
+ * Calls `visit` for each RIFF chunk between `start` and `end`, skipping the pad byte after odd-sized chunks.
+ */
+function forEachChunk(
+    view: DataView,
+    start: number,
+    end: number,
+    visit: (id: string, offset: number, size: number) => void
+) {
+    let offset = start;
+    while (offset + 8 <= end) {
+        const id = readString(view, offset, 4);
+        const size = view.getUint32(offset + 4, true);
+        const dataOffset = offset + 8;
+        if (dataOffset + size > end) {
+            // Truncated chunk: read what's there
+            visit(id, dataOffset, end - dataOffset);
+            break;
+        }
+        visit(id, dataOffset, size);
+        offset = dataOffset + size + (size % 2);
+    }
+}
@@ -0,0 +1,111 @@
+// ============================================================================
+// Types & Interfaces
+// ============================================================================
+
+export interface ZipEntry {
+    path: string;       // Path inside the archive, with forward slashes
+    data: Uint8Array<ArrayBuffer>;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const VERSION = 20;
+const FLAG_UTF8 = 0x0800;
+
+// ============================================================================
+// Zip Writer
+// ============================================================================
+
+/**
+ * Bundles files into an uncompressed zip archive.
+ * Audio barely compresses, so entries are stored as they are.
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+    const encoder = new TextEncoder();
+    const { time, date } = dosDateTime(new Date());
+    const parts: BlobPart[] = [];
+    const centralHeaders: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, VERSION, true);
+        local.setUint16(6, FLAG_UTF8, true);
+        local.setUint16(8, 0, true);            // Stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);        // Compressed size
+        local.setUint32(22, size, true);        // Uncompressed size
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);           // Extra field length
+
+        const central = new DataView(new ArrayBuffer(46 + name.length));
+        central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        central.setUint16(4, VERSION, true);    // Made by
+        central.setUint16(6, VERSION, true);    // Needed to extract
+        central.setUint16(8, FLAG_UTF8, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, size, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);    // Offset of the local header
+        new Uint8Array(central.buffer).set(name, 46);
+
+        parts.push(local.buffer, name, entry.data);
+        centralHeaders.push(new Uint8Array(central.buffer));
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = centralHeaders.reduce((sum, header) => sum + header.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, entries.length, true);     // Entries on this disk
+    end.setUint16(10, entries.length, true);    // Entries in total
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);            // Offset of the central directory
+
+    return new Blob([...parts, ...centralHeaders, end.buffer], { type: 'application/zip' });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/** Zip timestamps use the MS-DOS format, in local time */
+function dosDateTime(when: Date): { time: number; date: number } {
+    return {
+        time: (when.getHours() << 11) | (when.getMinutes() << 5) | Math.floor(when.getSeconds() / 2),
+        date: ((Math.max(1980, when.getFullYear()) - 1980) << 9) | ((when.getMonth() + 1) << 5) | when.getDate(),
+    };
+}
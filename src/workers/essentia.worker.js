@@ -10,6 +10,33 @@ importScripts('/essentia/essentia-wasm.web.js', '/essentia/essentia.js-core.js')
 
 let essentia = null;
 
+// Onset detection function of the last analyzed track, kept so chops can be re-run
+// with different settings without analyzing again
+const ANALYSIS_SAMPLE_RATE = 16000;
+const ONSET_FRAME_SIZE = 1024;
+const ONSET_HOP_SIZE = 128;
+let onsetCurve = null;
+
+// Beat tracking works on a coarser detection function, close to the ~86 Hz it is tuned for
+const BEAT_FRAME_SIZE = 512;
+const BEAT_HOP_SIZE = 186;
+const BEATS_PER_BAR = 4;  // Same as BEATS_PER_BAR in config/constants.ts
+
+// Transients reported with the analysis result (used for snapping)
+const DEFAULT_ONSET_SENSITIVITY = 0.5;
+const DEFAULT_ONSET_MIN_GAP = 0.05;
+
+// Alternatives reported next to the detected key and tempo, best first
+const KEY_CANDIDATES = 3;
+const KEY_FRAME_SIZE = 4096;
+const MIN_BPM_CANDIDATE = 40;
+const MAX_BPM_CANDIDATE = 250;
+
+// Krumhansl-Kessler key profiles, from C
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+const PITCH_CLASSES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
 // Initialize Essentia
 EssentiaWASM().then((wasmModule) => {
     essentia = new Essentia(wasmModule);
@@ -33,19 +60,11 @@ self.onmessage = function (e) {
 
             // Convert Float32Array to Essentia Vector
 
-            let signal;
-
-            if (originalSampleRate !== 16000) {
-
-                // Use custom JS resampler to avoid WASM memory/exception issues
-                const resampledPcm = resampleLinear(pcm, originalSampleRate, 16000);
-
-                // Convert to vector
-                signal = essentia.arrayToVector(resampledPcm);
-
-            } else {
-                signal = essentia.arrayToVector(pcm);
-            }
+            // Use custom JS resampler to avoid WASM memory/exception issues
+            const samples = originalSampleRate !== 16000
+                ? resampleLinear(pcm, originalSampleRate, 16000)
+                : pcm;
+            const signal = essentia.arrayToVector(samples);
 
             // 1. Key Detection
             // Parameters from integration guide (EXACTLY as specified)
@@ -82,6 +101,46 @@ self.onmessage = function (e) {
                 16000    // sampleRate
             );
 
+            // 3. Onset Detection Function
+            // Peaks are picked later, on request, so sensitivity can be tweaked cheaply
+
+            const onsetData = essentia.OnsetDetectionGlobal(
+                signal,
+                ONSET_FRAME_SIZE,       // frameSize
+                ONSET_HOP_SIZE,         // hopSize
+                'infogain',             // method
+                ANALYSIS_SAMPLE_RATE    // sampleRate
+            );
+            onsetCurve = essentia.vectorToArray(onsetData.onsetDetections);
+            onsetData.onsetDetections.delete();
+
+            // 4. Beat Tracking
+
+            const beatData = essentia.OnsetDetectionGlobal(
+                signal,
+                BEAT_FRAME_SIZE,        // frameSize
+                BEAT_HOP_SIZE,          // hopSize
+                'beat_emphasis',        // method
+                ANALYSIS_SAMPLE_RATE    // sampleRate
+            );
+            const tickData = essentia.TempoTapDegara(
+                beatData.onsetDetections,
+                208,                                    // maxTempo
+                40,                                     // minTempo
+                'none',                                 // resample
+                ANALYSIS_SAMPLE_RATE / BEAT_HOP_SIZE    // sampleRateODF
+            );
+            const beats = Array.from(essentia.vectorToArray(tickData.ticks));
+            beatData.onsetDetections.delete();
+            tickData.ticks.delete();
+
+            const keyCandidates = rankKeys(averageChroma(samples), keyData.key, keyData.scale);
+            const bpmCandidates = rankTempos(bpmData.bpm, onsetCurve);
+
+            const downbeat = estimateDownbeat(beats, bpmData.bpm, onsetCurve);
+            const transients = pickOnsets(onsetCurve, DEFAULT_ONSET_SENSITIVITY, DEFAULT_ONSET_MIN_GAP)
+                .map(onset => onset.time);
+
             // Clean up vector to free memory
             signal.delete();
 
@@ -91,7 +150,12 @@ self.onmessage = function (e) {
                 payload: {
                     key: keyData.key,
                     scale: keyData.scale,
-                    bpm: bpmData.bpm
+                    bpm: bpmData.bpm,
+                    keyCandidates,
+                    bpmCandidates,
+                    beats,
+                    downbeat,
+                    transients
                 }
             });
 
@@ -99,9 +163,240 @@ self.onmessage = function (e) {
             // Analysis error - notify main thread
             self.postMessage({ type: 'ERROR', payload: error.message });
         }
+    } else if (type === 'DETECT_ONSETS') {
+        if (!onsetCurve) {
+            self.postMessage({ type: 'ERROR', payload: 'No analyzed audio to detect onsets in' });
+            return;
+        }
+
+        const { sensitivity, minGap } = payload;
+        self.postMessage({
+            type: 'ONSETS',
+            payload: pickOnsets(onsetCurve, sensitivity, minGap)
+        });
     }
 };
 
+// Onset Peak Picking
+// Finds peaks of the detection function that rise above its local median.
+// sensitivity (0-1) lowers the threshold, minGap (seconds) keeps the strongest
+// of any onsets closer together than that.
+function pickOnsets(curve, sensitivity, minGap) {
+    const frameDuration = ONSET_HOP_SIZE / ANALYSIS_SAMPLE_RATE;
+    const medianRadius = Math.round(0.1 / frameDuration);   // 100 ms either side
+    const peakRadius = 2;
+
+    let max = 0;
+    for (let i = 0; i < curve.length; i++) {
+        if (curve[i] > max) max = curve[i];
+    }
+    if (max <= 0) return [];
+
+    const threshold = 0.02 + (1 - sensitivity) * 0.3;
+    const candidates = [];
+
+    for (let i = 0; i < curve.length; i++) {
+        const value = curve[i] / max;
+
+        // Local maximum
+        let isPeak = true;
+        for (let j = Math.max(0, i - peakRadius); j <= Math.min(curve.length - 1, i + peakRadius); j++) {
+            if (curve[j] > curve[i] || (curve[j] === curve[i] && j < i)) {
+                isPeak = false;
+                break;
+            }
+        }
+        if (!isPeak) continue;
+
+        const median = localMedian(curve, i, medianRadius) / max;
+        const strength = value - median;
+        if (strength > threshold) {
+            candidates.push({ time: i * frameDuration, strength });
+        }
+    }
+
+    // Strongest first, dropping anything too close to a stronger onset
+    candidates.sort((a, b) => b.strength - a.strength);
+    const onsets = [];
+    for (const candidate of candidates) {
+        if (onsets.every(onset => Math.abs(onset.time - candidate.time) >= minGap)) {
+            onsets.push(candidate);
+        }
+    }
+
+    return onsets.sort((a, b) => a.time - b.time);
+}
+
+// Key Candidates
+// Averages the harmonic pitch class profile over the track, then scores all 24 keys
+// by how well their profile correlates with it. The key detector's own pick is always
+// kept in the list, even if the profiles rank it lower.
+// Returns [{ key, scale, strength }], strength being the correlation (-1 to 1).
+function averageChroma(samples) {
+    const chroma = new Array(12).fill(0);
+    const frames = essentia.FrameGenerator(samples, KEY_FRAME_SIZE, KEY_FRAME_SIZE);
+
+    for (let i = 0; i < frames.size(); i++) {
+        const frame = frames.get(i);
+        const windowed = essentia.Windowing(frame, true, KEY_FRAME_SIZE, 'blackmanharris62');
+        const spectrum = essentia.Spectrum(windowed.frame, KEY_FRAME_SIZE);
+        const peaks = essentia.SpectralPeaks(spectrum.spectrum, 0.0001, 3500, 60, 60, 'magnitude', ANALYSIS_SAMPLE_RATE);
+        const hpcp = essentia.HPCP(
+            peaks.frequencies, peaks.magnitudes,
+            true,               // bandPreset
+            500,                // bandSplitFrequency
+            0,                  // harmonics
+            3500,               // maxFrequency
+            false,              // maxShifted
+            60,                 // minFrequency
+            false,              // nonLinear
+            'unitMax',          // normalized
+            440,                // referenceFrequency
+            ANALYSIS_SAMPLE_RATE,
+            12,                 // size
+            'squaredCosine',    // weightType
+            1                   // windowSize (semitones)
+        );
+
+        // HPCP bins start at A, the profiles at C
+        const values = essentia.vectorToArray(hpcp.hpcp);
+        for (let bin = 0; bin < 12; bin++) {
+            chroma[(bin + 9) % 12] += values[bin];
+        }
+
+        hpcp.hpcp.delete();
+        peaks.frequencies.delete();
+        peaks.magnitudes.delete();
+        spectrum.spectrum.delete();
+        windowed.frame.delete();
+        frame.delete();
+    }
+    frames.delete();
+
+    return chroma;
+}
+
+function rankKeys(chroma, detectedKey, detectedScale) {
+    const scored = [];
+    for (let tonic = 0; tonic < 12; tonic++) {
+        for (const [scale, profile] of [['major', MAJOR_PROFILE], ['minor', MINOR_PROFILE]]) {
+            const rotated = chroma.map((_, pc) => chroma[(pc + tonic) % 12]);
+            scored.push({ key: PITCH_CLASSES[tonic], scale, strength: correlation(rotated, profile) });
+        }
+    }
+    scored.sort((a, b) => b.strength - a.strength);
+
+    const isDetected = candidate =>
+        pitchClass(candidate.key) === pitchClass(detectedKey) && candidate.scale === detectedScale;
+    const detected = scored.find(isDetected);
+    const candidates = scored.filter(candidate => !isDetected(candidate)).slice(0, KEY_CANDIDATES - 1);
+    if (detected) {
+        // Spelled the way the key detector spells it
+        candidates.unshift({ ...detected, key: detectedKey });
+    }
+    return candidates
+        .sort((a, b) => b.strength - a.strength)
+        .map(candidate => ({ ...candidate, strength: Math.round(candidate.strength * 1000) / 1000 }));
+}
+
+// Tempo Candidates
+// The detected tempo and its half and double time, scored by how periodic the onset
+// curve is at each beat length (its autocorrelation over the first few beats).
+// Returns [{ bpm, confidence }] best first, confidences adding up to 1.
+function rankTempos(bpm, curve) {
+    if (!bpm) return [];
+
+    const frameDuration = ONSET_HOP_SIZE / ANALYSIS_SAMPLE_RATE;
+    const mean = curve.reduce((sum, value) => sum + value, 0) / curve.length;
+    const centered = curve.map(value => value - mean);
+    const energy = centered.reduce((sum, value) => sum + value * value, 0);
+    if (energy <= 0) return [{ bpm, confidence: 1 }];
+
+    const scored = [bpm, bpm / 2, bpm * 2]
+        .filter(candidate => candidate >= MIN_BPM_CANDIDATE && candidate <= MAX_BPM_CANDIDATE)
+        .map(candidate => {
+            const beatFrames = 60 / candidate / frameDuration;
+            let score = 0;
+            for (let beat = 1; beat <= BEATS_PER_BAR; beat++) {
+                score += autocorrelation(centered, Math.round(beat * beatFrames)) / energy;
+            }
+            return { bpm: candidate, score: Math.max(0, score / BEATS_PER_BAR) };
+        });
+
+    const total = scored.reduce((sum, candidate) => sum + candidate.score, 0);
+    return scored
+        .map(candidate => ({
+            bpm: candidate.bpm,
+            confidence: total > 0 ? Math.round((candidate.score / total) * 1000) / 1000 : 1 / scored.length,
+        }))
+        .sort((a, b) => b.confidence - a.confidence);
+}
+
+function autocorrelation(values, lag) {
+    let sum = 0;
+    for (let i = 0; i + lag < values.length; i++) {
+        sum += values[i] * values[i + lag];
+    }
+    return sum;
+}
+
+// Pearson correlation of two equally long arrays
+function correlation(a, b) {
+    const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+    const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < a.length; i++) {
+        covariance += (a[i] - meanA) * (b[i] - meanB);
+        varianceA += (a[i] - meanA) ** 2;
+        varianceB += (b[i] - meanB) ** 2;
+    }
+    return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+// Index of a key name (either spelling) from C
+function pitchClass(key) {
+    const sharps = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+    const index = sharps.indexOf(key);
+    return index !== -1 ? index : PITCH_CLASSES.indexOf(key);
+}
+
+// Downbeat Estimation
+// Fits an even grid at the detected BPM to the tracked beats (circular mean of
+// their phase), then picks the bar phase whose beats carry the strongest onsets.
+// Returns the time of the first downbeat in seconds.
+function estimateDownbeat(beats, bpm, curve) {
+    if (!bpm || beats.length === 0) return 0;
+
+    const period = 60 / bpm;
+    let sin = 0;
+    let cos = 0;
+    for (const beat of beats) {
+        const angle = (2 * Math.PI * beat) / period;
+        sin += Math.sin(angle);
+        cos += Math.cos(angle);
+    }
+    const phase = ((Math.atan2(sin, cos) / (2 * Math.PI)) * period + period) % period;
+
+    const frameDuration = ONSET_HOP_SIZE / ANALYSIS_SAMPLE_RATE;
+    const trackLength = curve.length * frameDuration;
+    const scores = new Array(BEATS_PER_BAR).fill(0);
+    for (let i = 0; phase + i * period < trackLength; i++) {
+        const frame = Math.round((phase + i * period) / frameDuration);
+        scores[i % BEATS_PER_BAR] += curve[Math.min(frame, curve.length - 1)];
+    }
+
+    const best = scores.indexOf(Math.max(...scores));
+    return phase + best * period;
+}
+
+function localMedian(curve, index, radius) {
+    const neighbours = curve.slice(Math.max(0, index - radius), Math.min(curve.length, index + radius + 1));
+    neighbours.sort((a, b) => a - b);
+    return neighbours[Math.floor(neighbours.length / 2)];
+}
+
 // Simple Linear Interpolation Resampler
 function resampleLinear(buffer, sampleRate, targetSampleRate) {
     if (sampleRate === targetSampleRate) return buffer;
@@ -1,5 +1,27 @@
 import { RubberBandInterface, RubberBandOption } from 'rubberband-wasm';
 
+// Every voice runs in the same AudioWorkletGlobalScope, so the track is stored
+// once here instead of being copied into each processor.
+const sharedSource = {
+    channels: null, // [Float32Array, Float32Array]
+    length: 0
+};
+
+// The WASM module is compiled once and instantiated per processor
+let wasmModulePromise = null;
+
+// How many source frames to keep queued ahead of Rubber Band
+const INPUT_FILL_TARGET = 8192;
+
+// Length of the crossfade at a loop seam
+const LOOP_CROSSFADE_SECONDS = 0.01;
+
+// Offline renders run this same processor, so they sound exactly like playback
+const RUBBERBAND_OPTIONS = RubberBandOption.RubberBandOptionProcessRealTime |
+    RubberBandOption.RubberBandOptionTransientsMixed |
+    RubberBandOption.RubberBandOptionDetectorCompound |
+    RubberBandOption.RubberBandOptionPhaseLaminar;
+
 class RingBuffer {
     constructor(capacity, channels) {
         this.capacity = capacity;
@@ -62,15 +84,18 @@ class RubberBandProcessor extends AudioWorkletProcessor {
         this.rbState = null;
         this.initialized = false;
 
-        // Audio Source (Full Track)
-        this.audioSource = null; // [Float32Array, Float32Array]
-        this.sourceLength = 0;
-
         // Playback State
         this.isPlaying = false;
+        this.pendingPlayback = null; // 'play' message waiting for its start time
+        this.playbackId = 0;
         this.playhead = 0;
         this.playEnd = 0;
         this.isReverse = false;
+        this.direction = 1;
+        this.loop = null; // { mode, start, end, crossfade } in samples
+        this.isLooping = false;
+        this.skipStartDelay = false; // Drop Rubber Band's start delay once the parameters are set
+        this.discardFrames = 0;
 
         // Buffers
         this.inputRingBuffer = null;
@@ -82,25 +107,28 @@ class RubberBandProcessor extends AudioWorkletProcessor {
             } else if (event.data.type === 'load') {
                 this.loadAudio(event.data.left, event.data.right);
             } else if (event.data.type === 'play') {
-                this.startPlayback(event.data);
+                // Started from process() once startTime is reached
+                this.pendingPlayback = event.data;
+                this.port.postMessage({ type: 'scheduled', playbackId: event.data.playbackId });
+            } else if (event.data.type === 'exitLoop') {
+                this.exitLoop();
             } else if (event.data.type === 'stop') {
+                this.pendingPlayback = null;
                 this.stopPlayback();
             }
         };
     }
 
     async initWasm(wasmBytes, sampleRate) {
-        const module = await WebAssembly.compile(wasmBytes);
+        if (!wasmModulePromise) {
+            wasmModulePromise = WebAssembly.compile(wasmBytes);
+        }
+        const module = await wasmModulePromise;
         this.rb = await RubberBandInterface.initialize(module);
 
         const channels = 2;
-        const options = RubberBandOption.RubberBandOptionProcessRealTime |
-            RubberBandOption.RubberBandOptionTransientsMixed |
-            RubberBandOption.RubberBandOptionDetectorCompound |
-            RubberBandOption.RubberBandOptionPhaseLaminar;
-
         this.sampleRate = sampleRate;
-        this.rbState = this.rb.rubberband_new(sampleRate, channels, options, 1.0, 1.0);
+        this.rbState = this.rb.rubberband_new(sampleRate, channels, RUBBERBAND_OPTIONS, 1.0, 1.0);
 
         // Create ring buffers
         // Input buffer: Buffer between Source and RubberBand. 
@@ -118,20 +146,24 @@ class RubberBandProcessor extends AudioWorkletProcessor {
 
     loadAudio(left, right) {
 
-        // Store the full audio buffer
-        this.audioSource = [left, right || left];
-        this.sourceLength = left.length;
+        // Store the full audio buffer for all voices
+        sharedSource.channels = [left, right || left];
+        sharedSource.length = left.length;
         this.port.postMessage({ type: 'loaded' });
     }
 
     startPlayback(data) {
-        if (!this.initialized || !this.audioSource) {
+        if (!this.initialized || !sharedSource.channels) {
             // Cannot start playback - not initialized or no audio source
             return;
         }
 
         this.isPlaying = true;
+        this.playbackId = data.playbackId;
         this.isReverse = data.reverse;
+        this.direction = this.isReverse ? -1 : 1;
+        this.skipStartDelay = Boolean(data.skipStartDelay);
+        this.discardFrames = 0;
 
         // Reset RubberBand state to clear previous history/transients
         this.rb.rubberband_reset(this.rbState);
@@ -154,7 +186,101 @@ class RubberBandProcessor extends AudioWorkletProcessor {
         }
 
         // Clamp playEnd
-        this.playEnd = Math.max(0, Math.min(this.sourceLength, this.playEnd));
+        this.playEnd = Math.max(0, Math.min(sharedSource.length, this.playEnd));
+
+        // Loop region (in samples), independent of the segment itself
+        this.loop = null;
+        this.isLooping = false;
+        if (data.loop && data.loop.mode !== 'off') {
+            const loopStart = Math.max(0, Math.floor(data.loop.startSample));
+            const loopEnd = Math.min(sharedSource.length, Math.floor(data.loop.endSample));
+            if (loopEnd - loopStart > 1) {
+                this.loop = {
+                    mode: data.loop.mode,
+                    start: loopStart,
+                    end: loopEnd,
+                    // The crossfade borrows audio from outside the loop, so keep it within the file
+                    crossfade: Math.min(
+                        Math.floor(this.sampleRate * LOOP_CROSSFADE_SECONDS),
+                        Math.floor((loopEnd - loopStart) / 2),
+                        this.isReverse ? sharedSource.length - loopEnd : loopStart
+                    )
+                };
+                this.isLooping = true;
+            }
+        }
+    }
+
+    exitLoop() {
+        // Sustain loops play on to the end of the segment once released
+        if (this.loop && this.loop.mode === 'sustain') {
+            this.isLooping = false;
+        }
+    }
+
+    getRemaining() {
+        return this.direction > 0 ? this.playEnd - this.playhead : this.playhead - this.playEnd;
+    }
+
+    /**
+     * Reads the frame at the playhead into the chunk.
+     * Just before a loop seam, the audio from before the other side of the loop
+     * is faded in, so the jump back is continuous.
+     */
+    readFrame(source, chunkLeft, chunkRight, i) {
+        const idx = this.playhead;
+        const length = sharedSource.length;
+        if (idx < 0 || idx >= length) return;
+
+        let left = source[0][idx];
+        let right = source[1][idx];
+
+        const loop = this.loop;
+        if (this.isLooping && loop.mode !== 'pingpong' && loop.crossfade > 0) {
+            const loopLength = loop.end - loop.start;
+            let weight = 0;
+            let otherIdx = -1;
+
+            if (this.direction > 0 && idx >= loop.end - loop.crossfade && idx < loop.end) {
+                weight = (idx - (loop.end - loop.crossfade) + 1) / loop.crossfade;
+                otherIdx = idx - loopLength;
+            } else if (this.direction < 0 && idx >= loop.start && idx < loop.start + loop.crossfade) {
+                weight = (loop.start + loop.crossfade - idx) / loop.crossfade;
+                otherIdx = idx + loopLength;
+            }
+
+            if (otherIdx >= 0 && otherIdx < length) {
+                left = left * (1 - weight) + source[0][otherIdx] * weight;
+                right = right * (1 - weight) + source[1][otherIdx] * weight;
+            }
+        }
+
+        chunkLeft[i] = left;
+        chunkRight[i] = right;
+    }
+
+    /**
+     * Moves the playhead one frame, wrapping (or bouncing) at the loop points while looping.
+     */
+    advancePlayhead() {
+        this.playhead += this.direction;
+
+        const loop = this.loop;
+        if (!this.isLooping) return;
+
+        if (loop.mode === 'pingpong') {
+            if (this.direction > 0 && this.playhead >= loop.end) {
+                this.direction = -1;
+                this.playhead = loop.end - 1;
+            } else if (this.direction < 0 && this.playhead < loop.start) {
+                this.direction = 1;
+                this.playhead = loop.start;
+            }
+        } else if (this.direction > 0 && this.playhead >= loop.end) {
+            this.playhead = loop.start;
+        } else if (this.direction < 0 && this.playhead < loop.start) {
+            this.playhead = loop.end - 1;
+        }
     }
 
     stopPlayback() {
@@ -181,6 +307,13 @@ class RubberBandProcessor extends AudioWorkletProcessor {
         const rightOut = output[1];
         const framesNeeded = leftOut.length;
 
+        // 0. Start scheduled playback during the block that contains its start time
+        if (this.pendingPlayback && currentTime + framesNeeded / this.sampleRate > this.pendingPlayback.startTime) {
+            const playback = this.pendingPlayback;
+            this.pendingPlayback = null;
+            this.startPlayback(playback);
+        }
+
         // 1. Update Parameters
         if (parameters.pitch && parameters.pitch.length > 0) {
             this.rb.rubberband_set_pitch_scale(this.rbState, parameters.pitch[0]);
@@ -190,60 +323,38 @@ class RubberBandProcessor extends AudioWorkletProcessor {
             this.rb.rubberband_set_time_ratio(this.rbState, 1.0 / speed);
         }
 
+        // The start delay depends on the ratios, so it's only known now
+        if (this.skipStartDelay) {
+            this.skipStartDelay = false;
+            this.discardFrames = this.rb.rubberband_get_start_delay(this.rbState);
+        }
+
         // 2. Feed Input Ring Buffer from Audio Source
-        if (this.isPlaying && this.audioSource) {
-            const availableSpace = this.inputRingBuffer.capacity - this.inputRingBuffer.available;
+        const source = sharedSource.channels;
+        if (this.isPlaying && source) {
+            // Only read a little ahead, so loop changes (like leaving a sustain loop) are heard quickly
+            const availableSpace = Math.min(
+                this.inputRingBuffer.capacity - this.inputRingBuffer.available,
+                INPUT_FILL_TARGET - this.inputRingBuffer.available
+            );
 
-            // We want to keep the input buffer reasonably full
             if (availableSpace > 0) {
                 let samplesToWrite = availableSpace;
 
-                // Calculate remaining samples in the current segment
-                let remaining = 0;
-                if (this.isReverse) {
-                    remaining = this.playhead - this.playEnd;
-                } else {
-                    remaining = this.playEnd - this.playhead;
-                }
-
-                if (remaining <= 0) {
-                    // End of segment reached
-                    samplesToWrite = 0;
-                    // We don't set isPlaying = false yet, we wait for the output buffer to drain
-                } else {
-                    samplesToWrite = Math.min(samplesToWrite, remaining);
+                // Outside a loop, stop at the end of the current segment
+                if (!this.isLooping) {
+                    const remaining = this.getRemaining();
+                    // At the end we don't set isPlaying = false yet, we wait for the output buffer to drain
+                    samplesToWrite = Math.max(0, Math.min(samplesToWrite, remaining));
                 }
 
                 if (samplesToWrite > 0) {
                     const chunkLeft = new Float32Array(samplesToWrite);
                     const chunkRight = new Float32Array(samplesToWrite);
 
-                    if (this.isReverse) {
-                        // Read backwards
-                        for (let i = 0; i < samplesToWrite; i++) {
-                            const srcIdx = this.playhead - i;
-                            // Bounds check
-                            if (srcIdx >= 0 && srcIdx < this.sourceLength) {
-                                chunkLeft[i] = this.audioSource[0][srcIdx];
-                                if (this.audioSource[1]) chunkRight[i] = this.audioSource[1][srcIdx];
-                            }
-                        }
-                        this.playhead -= samplesToWrite;
-                    } else {
-                        // Read forwards
-                        const end = this.playhead + samplesToWrite;
-                        // Use subarray for speed (copy happens in RingBuffer.write)
-                        // Need to ensure we don't go out of bounds
-                        const safeEnd = Math.min(end, this.sourceLength);
-                        const actualLen = safeEnd - this.playhead;
-
-                        if (actualLen > 0) {
-                            chunkLeft.set(this.audioSource[0].subarray(this.playhead, safeEnd));
-                            if (this.audioSource[1]) {
-                                chunkRight.set(this.audioSource[1].subarray(this.playhead, safeEnd));
-                            }
-                        }
-                        this.playhead += samplesToWrite;
+                    for (let i = 0; i < samplesToWrite; i++) {
+                        this.readFrame(source, chunkLeft, chunkRight, i);
+                        this.advancePlayhead();
                     }
 
                     this.inputRingBuffer.write([chunkLeft, chunkRight]);
@@ -256,10 +367,15 @@ class RubberBandProcessor extends AudioWorkletProcessor {
         const TARGET_OUTPUT_LEVEL = 4096;
         const CHUNK_SIZE = 1024; // Process in chunks of 1024 frames
 
+        // The last frames of a segment rarely fill a whole chunk: pass them as the final block
+        const isFinalChunk = this.isPlaying && !this.isLooping && this.getRemaining() <= 0 &&
+            this.inputRingBuffer.available > 0 && this.inputRingBuffer.available <= CHUNK_SIZE;
+
         // If output buffer is low, feed more data
-        if (this.outputRingBuffer.available < TARGET_OUTPUT_LEVEL && this.inputRingBuffer.available >= CHUNK_SIZE) {
+        if (this.outputRingBuffer.available < TARGET_OUTPUT_LEVEL &&
+            (this.inputRingBuffer.available >= CHUNK_SIZE || isFinalChunk)) {
 
-            const samplesRequired = CHUNK_SIZE;
+            const samplesRequired = Math.min(CHUNK_SIZE, this.inputRingBuffer.available);
 
             // Allocate WASM memory for input
             const inputPtr = this.rb.malloc(samplesRequired * 2 * 4);
@@ -280,10 +396,8 @@ class RubberBandProcessor extends AudioWorkletProcessor {
             this.rb.memWritePtr(inputPtrs, leftPtr);
             this.rb.memWritePtr(inputPtrs + 4, rightPtr);
 
-            // Process
-            // TODO: Detect end of stream and pass final=true?
-            // For now, false is fine for continuous playback
-            this.rb.rubberband_process(this.rbState, inputPtrs, samplesRequired, false);
+            // Process (the final block flushes what Rubber Band still holds)
+            this.rb.rubberband_process(this.rbState, inputPtrs, samplesRequired, isFinalChunk);
 
             this.rb.free(inputPtr);
             this.rb.free(inputPtrs);
@@ -307,23 +421,20 @@ class RubberBandProcessor extends AudioWorkletProcessor {
             const outLeft = this.rb.memReadF32(leftPtr, retrieved);
             const outRight = this.rb.memReadF32(rightPtr, retrieved);
 
-            this.outputRingBuffer.write([outLeft, outRight]);
+            const skip = Math.min(this.discardFrames, retrieved);
+            this.discardFrames -= skip;
+            if (skip < retrieved) {
+                this.outputRingBuffer.write([outLeft.subarray(skip), outRight.subarray(skip)]);
+            }
 
             this.rb.free(outputPtr);
             this.rb.free(outputPtrs);
         } else if (this.isPlaying && this.inputRingBuffer.available === 0 && this.outputRingBuffer.available === 0) {
             // No more output from RB, and no more input pending.
             // Check if we have reached the end of the source segment
-            let remaining = 0;
-            if (this.isReverse) {
-                remaining = this.playhead - this.playEnd;
-            } else {
-                remaining = this.playEnd - this.playhead;
-            }
-
-            if (remaining <= 0) {
+            if (!this.isLooping && this.getRemaining() <= 0) {
                 this.isPlaying = false;
-                this.port.postMessage({ type: 'complete' });
+                this.port.postMessage({ type: 'complete', playbackId: this.playbackId });
 
             }
         }